@@ -0,0 +1,115 @@
+import React from 'react';
+import styled from 'styled-components';
+
+import { Vector } from './types';
+import { DirectionName, DIRECTION_VECTORS } from './input';
+
+const PanelContainer = styled.fieldset`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin: 0;
+  border: 2px solid #bbada0;
+  border-radius: 6px;
+  color: #776e65;
+`;
+
+const AiRow = styled.label`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+`;
+
+const HintButton = styled.button`
+  min-width: 80px;
+  padding: 4px 8px;
+  border: 0;
+  border-radius: 4px;
+  background: #eee4da;
+  color: #776e65;
+  cursor: pointer;
+`;
+
+const DIRECTION_ARROWS: Record<DirectionName, string> = {
+  up: '↑',
+  down: '↓',
+  left: '←',
+  right: '→',
+};
+
+// Each extra move of look ahead takes around 40 times as long. Two moves takes a tenth of
+// a second on a 4 × 4 board, three takes several seconds, far too slow to autoplay with
+const DEPTH_OPTIONS = [1, 2];
+
+const formatHint = (hint: Vector) => {
+  const direction = (Object.keys(DIRECTION_VECTORS) as DirectionName[]).find(
+    (name) =>
+      DIRECTION_VECTORS[name].x === hint.x &&
+      DIRECTION_VECTORS[name].y === hint.y,
+  );
+
+  return direction ? DIRECTION_ARROWS[direction] : '?';
+};
+
+type AiPanelProps = {
+  hint: Vector | null;
+  onRequestHint: () => void;
+  autoplay: boolean;
+  onAutoplayChange: (autoplay: boolean) => void;
+  depth: number;
+  onDepthChange: (depth: number) => void;
+};
+
+export default function AiPanel({
+  hint,
+  onRequestHint,
+  autoplay,
+  onAutoplayChange,
+  depth,
+  onDepthChange,
+}: AiPanelProps) {
+  return (
+    <PanelContainer>
+      <legend>Assistant</legend>
+      <AiRow>
+        {hint ? `Try ${formatHint(hint)}` : 'Stuck?'}
+        <HintButton
+          type="button"
+          onClick={(e) => {
+            // stop keyboard focus on the button swallowing moves
+            e.currentTarget.blur();
+            onRequestHint();
+          }}
+        >
+          Hint
+        </HintButton>
+      </AiRow>
+      <AiRow>
+        Autoplay
+        <input
+          type="checkbox"
+          checked={autoplay}
+          onChange={(e) => onAutoplayChange(e.target.checked)}
+        />
+      </AiRow>
+      <AiRow>
+        Look ahead
+        <select
+          value={depth}
+          onChange={(e) => {
+            // stop keyboard focus on the select changing it with the next move
+            e.currentTarget.blur();
+            onDepthChange(Number(e.target.value));
+          }}
+        >
+          {DEPTH_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option} {option === 1 ? 'move' : 'moves'}
+            </option>
+          ))}
+        </select>
+      </AiRow>
+    </PanelContainer>
+  );
+}
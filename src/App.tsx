@@ -1,65 +1,394 @@
-import React from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { Canvas, useLoader } from '@react-three/fiber';
 import { TextureLoader } from 'three/src/loaders/TextureLoader';
 import { Texture } from 'three';
 import styled from 'styled-components';
 
-import { GRID_SIZE } from './consts';
+import {
+  CAMERA_FOV,
+  INSTANCED_BOXES_MIN_CELLS,
+  MAX_GRID_SIZE,
+  SHADOW_MAP_SIZE,
+} from './consts';
 import { use2048 } from './use2048';
+import Board from './Board';
 import Box from './Box';
+import BoxInstances from './BoxInstances';
+import MergeEffects from './MergeEffects';
+import Obstacle from './Obstacle';
+import ScoreHud from './ScoreHud';
+import GameOverlay from './GameOverlay';
+import KeyBindingsPanel from './KeyBindingsPanel';
+import SettingsPanel from './SettingsPanel';
+import AiPanel from './AiPanel';
+import ReplayPanel from './ReplayPanel';
+import StatsPanel from './StatsPanel';
+import { useKeyBindings } from './useKeyBindings';
+import { useSettings } from './useSettings';
+import { useAi } from './useAi';
+import { useReplayPlayer } from './useReplayPlayer';
+import { useStats } from './useStats';
+import { useBoxSprites } from './useBoxSprites';
+import { useBumpAnimation } from './useBumpAnimation';
+import { useQueuedAnimations } from './useQueuedAnimations';
+import { usePrefersReducedMotion } from './usePrefersReducedMotion';
+import { DEFAULT_AI_OPTIONS } from './ai';
+import { getCameraDistance, getMaxBlockValue } from './gridUtils';
+import { getDailySeed } from './random';
+import {
+  BOARD_LAYOUT_PRESETS,
+  BoardLayoutPresetName,
+  makeRectangleLayout,
+} from './boardLayouts';
+import {
+  GameSettings,
+  getSettingsLayout,
+  SPAWN_RULES_PRESETS,
+} from './settings';
+import { THEMES } from './themes';
+import { getAnimations } from './animation';
+import { decodeRecording, encodeRecording, GameRecording } from './replay';
+import { BoardLayout } from './types';
+
+const GameContainer = styled.div`
+  display: flex;
+  align-items: flex-start;
+  gap: 24px;
+`;
+
+const Sidebar = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 24px;
+`;
 
 const CanvasOuterContainer = styled.div`
+  position: relative;
   width: 800px;
   height: 800px;
+  /* swipes are handled by the game rather than scrolling or zooming the page */
+  touch-action: none;
 `;
 
 type Game2048Props = {
-  gridSize: number;
+  layout: BoardLayout;
   boxTexture: Texture;
+  settings: GameSettings;
+  onSettingsChange: (settings: GameSettings) => void;
+  seed?: string;
+  obstacleCount?: number;
+  // watches this recording rather than playing a game
+  recording?: GameRecording;
+  onWatchReplay: (recording: GameRecording) => void;
+  onExitReplay: () => void;
 };
 
-function Game2048({ gridSize, boxTexture }: Game2048Props) {
-  const { state, boxViewData, handleBoxAnimationComplete } = use2048(gridSize);
-  const { phase } = state;
+// The game state lives above the Canvas so that it can be shared between the DOM HUD and
+// the three.js scene, React context doesn't cross the Canvas boundary but props do
+function Game2048({
+  layout,
+  boxTexture,
+  settings,
+  onSettingsChange,
+  seed,
+  obstacleCount,
+  recording,
+  onWatchReplay,
+  onExitReplay,
+}: Game2048Props) {
+  const canvasContainer = useRef<HTMLDivElement>(null);
+  const [keyBindings, setKeyBindings] = useKeyBindings();
+  const [autoplay, setAutoplay] = useState(false);
+  const [aiDepth, setAiDepth] = useState(DEFAULT_AI_OPTIONS.depth);
+  const [stats, recordGameResult] = useStats();
+  const reducedMotion = usePrefersReducedMotion();
+  const animations = useMemo(
+    () =>
+      getAnimations({
+        speed: settings.animationSpeed,
+        isInstant: settings.instantAnimations,
+        reducedMotion,
+      }),
+    [settings.animationSpeed, settings.instantAnimations, reducedMotion],
+  );
+  const [board, bump] = useBumpAnimation(
+    settings.bumpAnimation,
+    animations.durations.bump,
+  );
+  const handleInputQueueChange = useQueuedAnimations(settings.queuedAnimations);
+  const {
+    state,
+    getState,
+    boxViewData,
+    obstaclePositions,
+    slotPositions,
+    handleBoxAnimationComplete,
+    restart,
+    keepPlaying,
+    inputRegistry,
+    getRecording,
+    subscribeToMerges,
+    replayError,
+  } = use2048(layout, {
+    seed,
+    winValue: settings.winValue,
+    spawnRules: SPAWN_RULES_PRESETS[settings.spawnRules],
+    obstacleCount,
+    swipeTarget: canvasContainer,
+    keyBindings,
+    recording,
+    onGameFinished: recordGameResult,
+    onBump: bump,
+    inputQueueDepth: settings.inputQueueDepth,
+    onInputQueueChange: handleInputQueueChange,
+  });
+  const { phase, grid, score, bestScore, moveCount } = state;
+  const maxBlockValue = useMemo(() => getMaxBlockValue(grid), [grid]);
+  const aiOptions = useMemo(
+    () => ({ ...DEFAULT_AI_OPTIONS, depth: aiDepth }),
+    [aiDepth],
+  );
+  const { hint, requestHint } = useAi(state, getState, inputRegistry, {
+    autoplay,
+    options: aiOptions,
+  });
+  const replayPlayer = useReplayPlayer(
+    recording,
+    phase,
+    inputRegistry,
+    keepPlaying,
+    Boolean(replayError),
+  );
+  // the camera is only positioned when the Canvas mounts, which is fine as the board
+  // can't change shape without remounting the game
+  const cameraDistance = getCameraDistance(grid, CAMERA_FOV);
+  const cellCount = grid.width * grid.height;
+  const theme = THEMES[settings.theme];
+  const { ambient, point } = theme.lights;
+  const boxValues = useMemo(
+    () => boxViewData.map(({ value }) => value),
+    [boxViewData],
+  );
+  const { texture, sheet } = useBoxSprites(boxTexture, boxValues);
 
   return (
-    <>
-      {boxViewData.map(({ id, value, position, isNew, isMerged }) => (
-        <Box
-          key={id}
-          isNew={isNew}
-          isMerged={isMerged}
+    <GameContainer>
+      <CanvasOuterContainer ref={canvasContainer}>
+        <Canvas
+          camera={{
+            fov: CAMERA_FOV,
+            near: 0.1,
+            far: 1000,
+            position: [0, 0, cameraDistance],
+          }}
+          shadows={true}
+        >
+          <color attach="background" args={[theme.background]} />
+          <ambientLight color={ambient.color} intensity={ambient.intensity} />
+          <pointLight
+            color={point.color}
+            intensity={point.intensity}
+            position={point.position}
+            castShadow={true}
+            shadow-mapSize={[SHADOW_MAP_SIZE, SHADOW_MAP_SIZE]}
+          />
+          <group ref={board}>
+            <Board
+              grid={grid}
+              slotPositions={slotPositions}
+              theme={theme}
+              animations={animations}
+            />
+            {obstaclePositions.map((position) => (
+              <Obstacle
+                key={`${position.x},${position.y}`}
+                position={position}
+                theme={theme}
+              />
+            ))}
+            {cellCount >= INSTANCED_BOXES_MIN_CELLS ? (
+              <BoxInstances
+                boxViewData={boxViewData}
+                phase={phase}
+                texture={texture}
+                sheet={sheet}
+                // every cell can briefly hold a block and the block merged into it
+                capacity={cellCount * 2}
+                theme={theme}
+                animations={animations}
+                subscribeToMerges={subscribeToMerges}
+                onAnimationComplete={handleBoxAnimationComplete}
+              />
+            ) : (
+              boxViewData.map(({ id, value, position, isNew, isMerged }) => (
+                <Box
+                  key={id}
+                  id={id}
+                  isNew={isNew}
+                  isMerged={isMerged}
+                  phase={phase}
+                  value={value}
+                  texture={texture}
+                  sheet={sheet}
+                  position={position}
+                  theme={theme}
+                  animations={animations}
+                  subscribeToMerges={subscribeToMerges}
+                  onAnimationComplete={handleBoxAnimationComplete}
+                />
+              ))
+            )}
+            <MergeEffects
+              subscribeToMerges={subscribeToMerges}
+              grid={grid}
+              theme={theme}
+              animations={animations}
+            />
+          </group>
+        </Canvas>
+        <GameOverlay
           phase={phase}
-          value={value}
-          texture={boxTexture}
-          position={position}
-          onAnimationComplete={handleBoxAnimationComplete}
+          score={score}
+          bestScore={bestScore}
+          moveCount={moveCount}
+          maxBlockValue={maxBlockValue}
+          // a replay can only keep going if the recorded player did
+          onKeepPlaying={recording ? replayPlayer.step : keepPlaying}
+          onNewGame={recording ? onExitReplay : restart}
         />
-      ))}
-    </>
+      </CanvasOuterContainer>
+      <Sidebar>
+        <ScoreHud score={score} bestScore={bestScore} moveCount={moveCount} />
+        {recording ? (
+          <ReplayPanel
+            index={replayPlayer.index}
+            total={replayPlayer.total}
+            isPlaying={replayPlayer.isPlaying}
+            onPlayingChange={replayPlayer.setIsPlaying}
+            onStep={replayPlayer.step}
+            onExit={onExitReplay}
+            error={replayError}
+          />
+        ) : (
+          <>
+            <AiPanel
+              hint={hint}
+              onRequestHint={requestHint}
+              autoplay={autoplay}
+              onAutoplayChange={setAutoplay}
+              depth={aiDepth}
+              onDepthChange={setAiDepth}
+            />
+            <ReplayPanel getRecording={getRecording} onWatch={onWatchReplay} />
+          </>
+        )}
+        <StatsPanel stats={stats} />
+        <SettingsPanel settings={settings} onChange={onSettingsChange} />
+        <KeyBindingsPanel keyBindings={keyBindings} onChange={setKeyBindings} />
+      </Sidebar>
+    </GameContainer>
   );
 }
 
+// ?seed=<anything> plays a shareable seeded board, ?daily plays today's board
+function getSeedFromLocation(): string | undefined {
+  const params = new URLSearchParams(window.location.search);
+
+  if (params.has('daily')) {
+    return getDailySeed();
+  }
+
+  return params.get('seed') ?? undefined;
+}
+
+// ?obstacles=<n> starts every game with n obstacles placed at random
+function getObstacleCountFromLocation(): number {
+  const params = new URLSearchParams(window.location.search);
+  const obstacleCount = parseInt(params.get('obstacles') ?? '', 10);
+
+  return obstacleCount > 0 ? obstacleCount : 0;
+}
+
+// ?board=<width>x<height> plays a rectangular board of up to MAX_GRID_SIZE each way,
+// ?board=cross (or donut, lShape) plays one of the preset shapes
+function getLayoutFromLocation(): BoardLayout | undefined {
+  const board = new URLSearchParams(window.location.search).get('board') ?? '';
+  const [, width, height] = board.match(/^(\d+)x(\d+)$/) ?? [];
+  const isValidSize = (size: number) => size > 0 && size <= MAX_GRID_SIZE;
+
+  if (
+    width &&
+    height &&
+    isValidSize(Number(width)) &&
+    isValidSize(Number(height))
+  ) {
+    return makeRectangleLayout(Number(width), Number(height));
+  }
+
+  if (Object.keys(BOARD_LAYOUT_PRESETS).includes(board)) {
+    return BOARD_LAYOUT_PRESETS[board as BoardLayoutPresetName];
+  }
+}
+
+// ?replay=<recording> watches a recording shared from the replay panel
+function getRecordingFromLocation(): GameRecording | undefined {
+  const replay = new URLSearchParams(window.location.search).get('replay');
+
+  try {
+    return replay ? decodeRecording(replay) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 function App() {
   const boxTexture = useLoader(TextureLoader, '2048-sheet.png');
+  const [seed] = useState(getSeedFromLocation);
+  const [obstacleCount] = useState(getObstacleCountFromLocation);
+  const [locationLayout] = useState(getLayoutFromLocation);
+  const [recording, setRecording] = useState(getRecordingFromLocation);
+  const [settings, setSettings] = useSettings();
+  const { gridSize, boardShape, winValue, spawnRules } = settings;
+  // a board given in the URL takes precedence over the saved settings
+  const layout = useMemo(
+    () => locationLayout ?? getSettingsLayout({ gridSize, boardShape }),
+    [locationLayout, gridSize, boardShape],
+  );
 
-  // User customisable grid sizes can be implemented by passing the gridSize prop down
-  // to Game2048 (perhaps by using a Select component or similar). By setting the key prop
-  // on Game2048 to the chosen grid size, this would force a remount of the game and a
-  // reset of all internal state
+  const exitReplay = useCallback(() => {
+    setRecording(undefined);
+
+    // so that reloading carries on with the game rather than the replay
+    const url = new URL(window.location.href);
+
+    url.searchParams.delete('replay');
+    window.history.replaceState(null, '', url);
+  }, []);
+
+  // Changing the board or the rules remounts Game2048 via its key, resetting all of its
+  // internal state and starting a new game. The theme can change without a remount, and
+  // watching a replay swaps in a separate game, leaving the saved game alone
   return (
-    <CanvasOuterContainer>
+    <>
       {boxTexture && (
-        <Canvas
-          camera={{ fov: 50, near: 0.1, far: 1000, position: [0, 0, 10] }}
-          shadows={true}
-        >
-          <ambientLight />
-          <pointLight position={[-3, 3, 10]} />
-          <Game2048 gridSize={GRID_SIZE} boxTexture={boxTexture} />
-        </Canvas>
+        <Game2048
+          key={
+            recording
+              ? encodeRecording(recording)
+              : [layout.join('/'), winValue, spawnRules].join()
+          }
+          layout={recording?.layout ?? layout}
+          boxTexture={boxTexture}
+          settings={settings}
+          onSettingsChange={setSettings}
+          seed={seed}
+          obstacleCount={obstacleCount}
+          recording={recording}
+          onWatchReplay={setRecording}
+          onExitReplay={exitReplay}
+        />
       )}
-    </CanvasOuterContainer>
+    </>
   );
 }
 
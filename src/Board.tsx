@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Color,
+  ExtrudeGeometry,
+  MeshLambertMaterial,
+  Path,
+  Shape,
+  Vector3,
+} from 'three';
+import gsap from 'gsap';
+
+import { Animations } from './animation';
+import { BOX_GAP, BOX_SIZE } from './consts';
+import { getGridScreenSize } from './gridUtils';
+import { Theme } from './themes';
+import { Grid } from './types';
+
+// the front of the slab is just behind the boxes, so they never cut into it as they move
+const SLAB_FRONT = -BOX_SIZE / 2 - 0.08;
+const SLAB_DEPTH = 0.3;
+// how far each slot is sunk into the slab
+const SLOT_DEPTH = 0.12;
+// a little wider than a box, so the edges of the slot show around it
+const SLOT_SIZE = BOX_SIZE + BOX_GAP / 2;
+
+// the outline of the board with a hole through it for every slot
+const makeSlabGeometry = (
+  { width, height }: Pick<Grid, 'width' | 'height'>,
+  slotPositions: Pick<Vector3, 'x' | 'y'>[],
+) => {
+  const halfWidth = getGridScreenSize(width) / 2 + BOX_GAP;
+  const halfHeight = getGridScreenSize(height) / 2 + BOX_GAP;
+  const halfSlot = SLOT_SIZE / 2;
+  const shape = new Shape()
+    .moveTo(-halfWidth, -halfHeight)
+    .lineTo(halfWidth, -halfHeight)
+    .lineTo(halfWidth, halfHeight)
+    .lineTo(-halfWidth, halfHeight)
+    .lineTo(-halfWidth, -halfHeight);
+
+  // holes wind the opposite way to the outline
+  shape.holes = slotPositions.map(({ x, y }) =>
+    new Path()
+      .moveTo(x - halfSlot, y - halfSlot)
+      .lineTo(x - halfSlot, y + halfSlot)
+      .lineTo(x + halfSlot, y + halfSlot)
+      .lineTo(x + halfSlot, y - halfSlot)
+      .lineTo(x - halfSlot, y - halfSlot),
+  );
+
+  return new ExtrudeGeometry(shape, {
+    depth: SLAB_DEPTH,
+    bevelEnabled: false,
+  });
+};
+
+type BoardProps = {
+  grid: Pick<Grid, 'width' | 'height'>;
+  // the centre of every cell a block can be in
+  slotPositions: Vector3[];
+  theme: Theme;
+  animations: Animations;
+};
+
+/**
+ * The slab behind the boxes, with a slot sunk into it for every cell a block can be in,
+ * so that the empty cells can be seen. Masked out cells and obstacles have no slot
+ */
+export default function Board({
+  grid: { width, height },
+  slotPositions,
+  theme,
+  animations: { durations },
+}: BoardProps) {
+  // the slots only change with a new game, not with every move
+  const slotsKey = slotPositions.map(({ x, y }) => `${x},${y}`).join(' ');
+  const geometry = useMemo(() => {
+    const slots = slotsKey
+      ? slotsKey.split(' ').map((slot) => {
+          const [x, y] = slot.split(',').map(Number);
+
+          return { x, y };
+        })
+      : [];
+
+    return makeSlabGeometry({ width, height }, slots);
+  }, [width, height, slotsKey]);
+  // Shared by every slot, so that a theme change is a single tween for each. They're only
+  // made once, the colors are tweened from then on
+  const [{ slabMaterial, slotMaterial }] = useState(() => ({
+    slabMaterial: new MeshLambertMaterial({ color: theme.board.slab }),
+    slotMaterial: new MeshLambertMaterial({ color: theme.board.slot }),
+  }));
+  const previousTheme = useRef(theme);
+  // a new animation speed part of the way through a fade doesn't restart it
+  const latestDurations = useRef(durations);
+  latestDurations.current = durations;
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useEffect(
+    () => () => {
+      slabMaterial.dispose();
+      slotMaterial.dispose();
+    },
+    [slabMaterial, slotMaterial],
+  );
+
+  // cross-fades with the boxes
+  useEffect(() => {
+    if (previousTheme.current === theme) {
+      return;
+    }
+
+    previousTheme.current = theme;
+
+    const slab = new Color(theme.board.slab);
+    const slot = new Color(theme.board.slot);
+    const { themeFade } = latestDurations.current;
+
+    const ctx = gsap.context(() => {
+      gsap.to(slabMaterial.color, {
+        r: slab.r,
+        g: slab.g,
+        b: slab.b,
+        duration: themeFade,
+        ease: 'linear',
+      });
+      gsap.to(slotMaterial.color, {
+        r: slot.r,
+        g: slot.g,
+        b: slot.b,
+        duration: themeFade,
+        ease: 'linear',
+      });
+    });
+
+    return () => {
+      ctx.kill();
+    };
+  }, [theme, slabMaterial, slotMaterial]);
+
+  return (
+    <group>
+      <mesh
+        geometry={geometry}
+        material={slabMaterial}
+        position={[0, 0, SLAB_FRONT - SLAB_DEPTH]}
+        receiveShadow={true}
+      />
+      {slotPositions.map(({ x, y }) => (
+        <mesh
+          key={`${x},${y}`}
+          material={slotMaterial}
+          position={[x, y, SLAB_FRONT - SLOT_DEPTH]}
+          receiveShadow={true}
+        >
+          <planeGeometry args={[SLOT_SIZE, SLOT_SIZE]} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
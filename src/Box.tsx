@@ -20,34 +20,49 @@ import {
 import { mergeUniforms } from 'three/src/renderers/shaders/UniformsUtils';
 import gsap from 'gsap';
 
-import { BOX_COLORS } from './consts';
+import { AnimationDurations, Animations } from './animation';
+import { FLOAT_NOISE_FACTOR } from './consts';
 import { vertexShader, fragmentShader } from './boxShader';
-import sheetData from './2048-sheet.json';
+import { getMergeEffectSize, SubscribeToMerges } from './mergeEffectUtils';
+import { getFrameUvRange, SpriteSheetData } from './spriteSheet';
+import { getBoxColors, Theme } from './themes';
 import { Phase } from './types';
 import { buildUVinRange } from './utils';
 
 type BoxProps = {
+  id: string;
   phase: Phase;
   texture: Texture;
+  // where each value's frame is in the texture
+  sheet: SpriteSheetData;
   value: number;
   position: Vector3;
   isNew: boolean;
   isMerged: boolean;
+  theme: Theme;
+  animations: Animations;
+  subscribeToMerges: SubscribeToMerges;
   onAnimationComplete: () => void;
 };
 
-const FRAME_SIZE = sheetData.frames['1'].frame.w;
-const SHEET_SIZE = sheetData.meta.size.w;
-const UV_SIZE = FRAME_SIZE / SHEET_SIZE;
-
 type MeshRefType = RefObject<Mesh>;
 type GeometryRefType = RefObject<BoxGeometry>;
 type MaterialRefType = RefObject<ShaderMaterial>;
+// Read when an animation starts, rather than re-running the animations whenever they
+// change, so that a new theme or animation speed part of the way through a phase doesn't
+// restart its animations and have them report complete a second time
+type AnimationSettingsRefType = RefObject<{
+  theme: Theme;
+  durations: AnimationDurations;
+  onAnimationComplete: () => void;
+}>;
 
-const useShader = (texture: Texture) => {
+const useShader = (texture: Texture, floatNoiseFactor: number) => {
   const material: MaterialRefType = useRef(null);
+  // The uniforms are only created once, as they hold the box's colors. Replacing them
+  // would reset the colors whenever the texture changes
   const shaderData = useMemo(() => {
-    const data = {
+    return {
       defines: {
         USE_MAP: '',
         USE_UV: '',
@@ -56,17 +71,19 @@ const useShader = (texture: Texture) => {
         ShaderLib.lambert.uniforms,
         { fontColor: { value: new Color(0xffffff) } },
         { time: { value: 0 } },
+        { noiseFactor: { value: FLOAT_NOISE_FACTOR } },
         { centre: { value: new Vector3() } },
       ]),
       vertexShader,
       fragmentShader,
       lights: true,
     };
+  }, []);
 
-    data.uniforms.map.value = texture;
-
-    return data;
-  }, [texture]);
+  useLayoutEffect(() => {
+    shaderData.uniforms.map.value = texture;
+    shaderData.uniforms.noiseFactor.value = floatNoiseFactor;
+  }, [shaderData, texture, floatNoiseFactor]);
 
   useFrame((_, delta) => {
     if (!material.current) {
@@ -81,6 +98,7 @@ const useShader = (texture: Texture) => {
 const useUpdateValueTextureCoords = (
   value: number,
   texture: Texture,
+  sheet: SpriteSheetData,
   geometry: GeometryRefType,
   material: MaterialRefType,
 ) => {
@@ -92,13 +110,7 @@ const useUpdateValueTextureCoords = (
       return;
     }
 
-    // @ts-ignore
-    const { frame } = sheetData.frames[value];
-    const uMin = frame.x / SHEET_SIZE;
-    const uMax = uMin + UV_SIZE;
-    // v direction is inverted:
-    const vMax = 1 - frame.y / SHEET_SIZE;
-    const vMin = vMax - UV_SIZE;
+    const { uMin, uMax, vMin, vMax } = getFrameUvRange(sheet, value);
 
     const { widthSegments, depthSegments, heightSegments } =
       geometryInstance.parameters;
@@ -115,9 +127,7 @@ const useUpdateValueTextureCoords = (
     uvAttr.set(nextUvs);
     uvAttr.setUsage(DynamicDrawUsage);
     uvAttr.needsUpdate = true;
-
-    material.current.uniforms.fontColor.value.set(BOX_COLORS[value].color);
-  }, [geometry, material, texture, value]);
+  }, [geometry, material, texture, sheet, value]);
 };
 
 const useSpawnAnimation = (
@@ -125,9 +135,9 @@ const useSpawnAnimation = (
   position: Vector3,
   value: number,
   phase: Phase,
+  animationSettings: AnimationSettingsRefType,
   mesh: MeshRefType,
   material: MaterialRefType,
-  onAnimationComplete: () => void,
 ) => {
   const { x, y } = position;
 
@@ -135,13 +145,15 @@ const useSpawnAnimation = (
     if (
       !mesh.current ||
       !material.current ||
+      !animationSettings.current ||
       !isNew ||
-      !['SPAWN', 'INIT'].includes(phase)
+      !['SPAWN', 'INIT', 'REVERT'].includes(phase)
     ) {
       return;
     }
 
-    const { color, background } = BOX_COLORS[value];
+    const { theme, durations } = animationSettings.current;
+    const { color, background } = getBoxColors(theme, value);
 
     mesh.current.position.x = x;
     mesh.current.position.y = y;
@@ -155,35 +167,42 @@ const useSpawnAnimation = (
         return;
       }
 
-      gsap.fromTo(
-        mesh.current.scale,
-        {
-          x: 0.01,
-          y: 0.01,
-        },
-        {
-          duration: 0.333,
-          x: 1,
-          y: 1,
-          ease: 'Back.easeOut',
-          onComplete: onAnimationComplete,
-        },
-      );
+      // unlike a lone tween, a timeline doesn't complete inside this effect when its
+      // duration is 0, so it's still killed if the effect is cleaned up straight away
+      gsap
+        .timeline({
+          onComplete: () => animationSettings.current?.onAnimationComplete(),
+        })
+        .fromTo(
+          mesh.current.scale,
+          {
+            x: 0.01,
+            y: 0.01,
+          },
+          {
+            duration: durations.spawn,
+            x: 1,
+            y: 1,
+            ease: 'Back.easeOut',
+          },
+        );
     });
     return () => {
       ctx.kill();
     };
-  }, [phase, value, isNew, x, y, onAnimationComplete, mesh, material]);
+  }, [phase, value, isNew, x, y, animationSettings, mesh, material]);
 };
 
 const useUpdateAnimation = (
+  isNew: boolean,
   isMerged: boolean,
   position: Vector3,
   value: number,
   phase: Phase,
+  theme: Theme,
+  animationSettings: AnimationSettingsRefType,
   mesh: MeshRefType,
   material: MaterialRefType,
-  onAnimationComplete: () => void,
 ) => {
   const meshPositionTweenState: RefObject<{
     tweenPosition: number;
@@ -196,35 +215,118 @@ const useUpdateAnimation = (
     tweenPosition: number;
     fromColor: string;
   }> = useRef({
-    fromColor: BOX_COLORS[value].background,
+    fromColor: getBoxColors(theme, value).background,
     tweenPosition: 0,
   });
+  const previousTheme = useRef(theme);
+  const latestValue = useRef(value);
+  latestValue.current = value;
   const { x, y } = position;
 
-  return useLayoutEffect(() => {
+  // The same color tween cross-fades to a new theme. It takes over from the colors shown
+  // right now, even part of the way through a move, which carries on to its new position
+  useEffect(() => {
+    const fromTheme = previousTheme.current;
+
+    previousTheme.current = theme;
+
+    if (
+      fromTheme === theme ||
+      !material.current ||
+      !materialColorTweenState.current ||
+      !animationSettings.current
+    ) {
+      return;
+    }
+
+    const { diffuse, fontColor } = material.current.uniforms;
+    const fromFontColor = `#${fontColor.value.getHexString()}`;
+    const { color, background } = getBoxColors(theme, latestValue.current);
+    const { durations } = animationSettings.current;
+
+    gsap.killTweensOf(materialColorTweenState.current);
+    materialColorTweenState.current.fromColor = `#${diffuse.value.getHexString()}`;
+
+    const ctx = gsap.context(() => {
+      gsap.fromTo(
+        materialColorTweenState.current,
+        {
+          tweenPosition: 0,
+        },
+        {
+          duration: durations.themeFade,
+          tweenPosition: 1,
+          ease: 'linear',
+          onUpdate: () => {
+            if (!materialColorTweenState.current) {
+              return;
+            }
+
+            const { fromColor, tweenPosition } =
+              materialColorTweenState.current;
+
+            diffuse.value.set(
+              gsap.utils.interpolate(fromColor, background, tweenPosition),
+            );
+            fontColor.value.set(
+              gsap.utils.interpolate(fromFontColor, color, tweenPosition),
+            );
+          },
+          onComplete: () => {
+            if (!materialColorTweenState.current) {
+              return;
+            }
+
+            materialColorTweenState.current.fromColor = background;
+          },
+        },
+      );
+    });
+
+    return () => {
+      ctx.kill();
+    };
+  }, [theme, animationSettings, material]);
+
+  useLayoutEffect(() => {
     if (
       !mesh.current ||
       !material.current ||
       !materialColorTweenState.current ||
-      phase !== 'ACTIVE'
+      !animationSettings.current ||
+      !['ACTIVE', 'REVERT'].includes(phase) ||
+      // blocks reappearing from history spawn in instead
+      isNew
     ) {
       return;
     }
 
+    const { theme, durations } = animationSettings.current;
+    const { color, background } = getBoxColors(theme, value);
+    const { diffuse, fontColor } = material.current.uniforms;
+
+    // the number changes as soon as blocks merge, only the background is tweened
+    fontColor.value.set(color);
+    // from wherever a theme cross-fade has got to
+    gsap.killTweensOf(materialColorTweenState.current);
+    materialColorTweenState.current.fromColor = `#${diffuse.value.getHexString()}`;
+
     const ctx = gsap.context(() => {
       if (!mesh.current) {
         return;
       }
 
       const timeline = gsap
-        .timeline({ onComplete: onAnimationComplete })
+        .timeline({
+          onComplete: () => animationSettings.current?.onAnimationComplete(),
+        })
         .fromTo(
           meshPositionTweenState.current,
           {
             tweenPosition: 0,
           },
           {
-            duration: 0.333,
+            duration: durations.move,
             tweenPosition: 1,
             ease: 'Power3.inOut',
             onUpdate: () => {
@@ -263,7 +365,7 @@ const useUpdateAnimation = (
             tweenPosition: 0,
           },
           {
-            duration: 0.333,
+            duration: durations.move,
             tweenPosition: 1,
             ease: 'linear',
             onUpdate: () => {
@@ -275,11 +377,7 @@ const useUpdateAnimation = (
                 materialColorTweenState.current;
 
               material.current.uniforms.diffuse.value.set(
-                gsap.utils.interpolate(
-                  fromColor,
-                  BOX_COLORS[value].background,
-                  tweenPosition,
-                ),
+                gsap.utils.interpolate(fromColor, background, tweenPosition),
               );
             },
             onComplete: () => {
@@ -287,8 +385,7 @@ const useUpdateAnimation = (
                 return;
               }
 
-              materialColorTweenState.current.fromColor =
-                BOX_COLORS[value].background;
+              materialColorTweenState.current.fromColor = background;
             },
           },
           '<',
@@ -298,12 +395,12 @@ const useUpdateAnimation = (
         timeline.to(
           mesh.current.scale,
           {
-            duration: 0.15,
+            duration: durations.merge,
             x: 0.01,
             y: 0.01,
             ease: 'Power3.inOut',
           },
-          '>-0.15',
+          `>-${durations.merge}`,
         );
       }
     });
@@ -311,47 +408,119 @@ const useUpdateAnimation = (
     return () => {
       ctx.kill();
     };
-  }, [phase, isMerged, value, x, y, onAnimationComplete, position, mesh, material]);
+  }, [
+    phase,
+    isNew,
+    isMerged,
+    value,
+    x,
+    y,
+    position,
+    animationSettings,
+    mesh,
+    material,
+  ]);
+};
+
+// the kept block punches out and back once it's merged with another one
+const useMergePunch = (
+  id: string,
+  subscribeToMerges: SubscribeToMerges,
+  animationSettings: AnimationSettingsRefType,
+  mesh: MeshRefType,
+) => {
+  useEffect(() => {
+    let ctx: ReturnType<typeof gsap.context> | null = null;
+
+    const unsubscribe = subscribeToMerges((merge) => {
+      const durations = animationSettings.current?.durations;
+
+      if (merge.id !== id || !durations?.mergePunch) {
+        return;
+      }
+
+      const { punchScale } = getMergeEffectSize(merge.value);
+
+      ctx?.kill();
+      ctx = gsap.context(() => {
+        if (!mesh.current) {
+          return;
+        }
+
+        // the blocks only meet at the end of the move
+        gsap
+          .timeline({ delay: durations.move })
+          .to(mesh.current.scale, {
+            duration: durations.mergePunch / 2,
+            x: punchScale,
+            y: punchScale,
+            ease: 'power2.out',
+          })
+          .to(mesh.current.scale, {
+            duration: durations.mergePunch / 2,
+            x: 1,
+            y: 1,
+            ease: 'power2.in',
+          });
+      });
+    });
+
+    return () => {
+      unsubscribe();
+      ctx?.kill();
+    };
+  }, [id, subscribeToMerges, animationSettings, mesh]);
 };
 
 export default function Box({
+  id,
   phase,
   value,
   texture,
+  sheet,
   position,
   isNew,
   isMerged,
+  theme,
+  animations: { durations, floatNoiseFactor },
+  subscribeToMerges,
   onAnimationComplete,
 }: BoxProps) {
   const mesh: MeshRefType = useRef(null);
   const geometry: GeometryRefType = useRef(null);
 
-  const { shaderData, material } = useShader(texture);
+  const { shaderData, material } = useShader(texture, floatNoiseFactor);
+  const animationSettings = useRef({ theme, durations, onAnimationComplete });
+  animationSettings.current = { theme, durations, onAnimationComplete };
 
-  useUpdateValueTextureCoords(value, texture, geometry, material);
+  useUpdateValueTextureCoords(value, texture, sheet, geometry, material);
 
   useSpawnAnimation(
     isNew,
     position,
     value,
     phase,
+    animationSettings,
     mesh,
     material,
-    onAnimationComplete,
   );
 
   useUpdateAnimation(
+    isNew,
     isMerged,
     position,
     value,
     phase,
+    theme,
+    animationSettings,
     mesh,
     material,
-    onAnimationComplete,
   );
 
+  useMergePunch(id, subscribeToMerges, animationSettings, mesh);
+
   return (
-    <mesh ref={mesh}>
+    <mesh ref={mesh} castShadow={true}>
       <boxGeometry ref={geometry} args={[1, 1, 1]} />
       <shaderMaterial ref={material} {...shaderData} />
     </mesh>
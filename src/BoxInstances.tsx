@@ -0,0 +1,525 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import {
+  BoxGeometry,
+  Color,
+  DynamicDrawUsage,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  Matrix4,
+  MeshDistanceMaterial,
+  ShaderLib,
+  ShaderMaterial,
+  Texture,
+  Vector2,
+  Vector3,
+} from 'three';
+import { mergeUniforms } from 'three/src/renderers/shaders/UniformsUtils';
+import gsap from 'gsap';
+
+import { AnimationDurations, Animations } from './animation';
+import { FLOAT_NOISE_FACTOR } from './consts';
+import { vertexShader, fragmentShader } from './boxShader';
+import { getMergeEffectSize, SubscribeToMerges } from './mergeEffectUtils';
+import { getFrameUvRange, SpriteSheetData } from './spriteSheet';
+import { BoxColors, getBoxColors, Theme } from './themes';
+import { BoxViewData, Phase } from './types';
+
+type BoxInstancesProps = {
+  boxViewData: BoxViewData[];
+  phase: Phase;
+  texture: Texture;
+  // where each value's frame is in the texture
+  sheet: SpriteSheetData;
+  // the most boxes which can be on screen at once, a merge briefly shows two in one cell
+  capacity: number;
+  theme: Theme;
+  animations: Animations;
+  subscribeToMerges: SubscribeToMerges;
+  onAnimationComplete: () => void;
+};
+
+// the number of floats in each per instance attribute read by boxShader
+const INSTANCE_ATTRIBUTE_SIZES = {
+  instanceOffset: 3,
+  instanceScale: 2,
+  instanceFrameOffset: 2,
+  instanceBackground: 3,
+  instanceFontColor: 3,
+};
+
+type InstanceAttributeName = keyof typeof INSTANCE_ATTRIBUTE_SIZES;
+
+// what a Box keeps in its own mesh and material, tweened in exactly the same way
+type InstanceState = {
+  position: Vector3;
+  scale: { x: number; y: number };
+  background: Color;
+  fontColor: Color;
+  positionTween: { tweenPosition: number; fromPosition: Vector3 };
+  colorTween: { tweenPosition: number; fromColor: string };
+};
+
+const makeInstanceState = (
+  position: Vector3,
+  { color, background }: BoxColors,
+): InstanceState => ({
+  position: position.clone(),
+  scale: { x: 1, y: 1 },
+  background: new Color(background),
+  fontColor: new Color(color),
+  positionTween: { tweenPosition: 0, fromPosition: position.clone() },
+  colorTween: { tweenPosition: 0, fromColor: background },
+});
+
+const useInstancedGeometry = (capacity: number) => {
+  const geometry = useMemo(() => {
+    const boxGeometry = new BoxGeometry(1, 1, 1);
+
+    Object.entries(INSTANCE_ATTRIBUTE_SIZES).forEach(([name, itemSize]) => {
+      boxGeometry.setAttribute(
+        name,
+        new InstancedBufferAttribute(
+          new Float32Array(capacity * itemSize),
+          itemSize,
+        ).setUsage(DynamicDrawUsage),
+      );
+    });
+
+    return boxGeometry;
+  }, [capacity]);
+  const attributes = useMemo(
+    () =>
+      Object.keys(INSTANCE_ATTRIBUTE_SIZES).reduce(
+        (result, name) => ({
+          ...result,
+          [name]: geometry.getAttribute(name) as InstancedBufferAttribute,
+        }),
+        {} as Record<InstanceAttributeName, InstancedBufferAttribute>,
+      ),
+    [geometry],
+  );
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return { geometry, attributes };
+};
+
+const useInstancedMaterial = (
+  texture: Texture,
+  sheet: SpriteSheetData,
+  floatNoiseFactor: number,
+) => {
+  const material = useMemo(() => {
+    // every frame in the sheet is the same size, so only their offsets differ
+    const { uMin, uMax, vMin, vMax } = getFrameUvRange(
+      sheet,
+      Number(Object.keys(sheet.frames)[0]),
+    );
+    const shaderMaterial = new ShaderMaterial({
+      defines: {
+        USE_MAP: '',
+        USE_UV: '',
+        USE_INSTANCED_BOX: '',
+      },
+      uniforms: mergeUniforms([
+        ShaderLib.lambert.uniforms,
+        { time: { value: 0 } },
+        { noiseFactor: { value: FLOAT_NOISE_FACTOR } },
+        { frameSize: { value: new Vector2(uMax - uMin, vMax - vMin) } },
+      ]),
+      vertexShader,
+      fragmentShader,
+      lights: true,
+    });
+
+    shaderMaterial.uniforms.map.value = texture;
+
+    return shaderMaterial;
+  }, [texture, sheet]);
+
+  useLayoutEffect(() => {
+    material.uniforms.noiseFactor.value = floatNoiseFactor;
+  }, [material, floatNoiseFactor]);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  return material;
+};
+
+/**
+ * Shadows are drawn with a material of their own, which needs to move each instance into
+ * place just like boxShader does, otherwise every shadow would be cast from the centre
+ */
+const useInstancedShadowMaterial = () => {
+  const material = useMemo(() => {
+    const distanceMaterial = new MeshDistanceMaterial();
+
+    distanceMaterial.onBeforeCompile = (shader) => {
+      shader.vertexShader = shader.vertexShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+          attribute vec3 instanceOffset;
+          attribute vec2 instanceScale;`,
+        )
+        .replace(
+          '#include <begin_vertex>',
+          'vec3 transformed = position * vec3( instanceScale, 1.0 ) + instanceOffset;',
+        );
+    };
+
+    return distanceMaterial;
+  }, []);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  return material;
+};
+
+const useInstanceAnimations = (
+  boxViewData: BoxViewData[],
+  phase: Phase,
+  theme: Theme,
+  durations: AnimationDurations,
+  subscribeToMerges: SubscribeToMerges,
+  onAnimationComplete: () => void,
+) => {
+  const instanceStates = useRef(new Map<string, InstanceState>());
+  const previousTheme = useRef(theme);
+  // the same as the animation settings in Box
+  const animationSettings = useRef({ theme, durations, onAnimationComplete });
+  animationSettings.current = { theme, durations, onAnimationComplete };
+  const latestBoxViewData = useRef(boxViewData);
+  latestBoxViewData.current = boxViewData;
+
+  useLayoutEffect(() => {
+    const states = instanceStates.current;
+    const { theme, durations } = animationSettings.current;
+    const onAnimationComplete = () =>
+      animationSettings.current.onAnimationComplete();
+    const ids = new Set(boxViewData.map(({ id }) => id));
+
+    states.forEach((_, id) => {
+      if (!ids.has(id)) {
+        states.delete(id);
+      }
+    });
+
+    const ctx = gsap.context(() => {
+      boxViewData.forEach(({ id, value, position, isNew, isMerged }) => {
+        const colors = getBoxColors(theme, value);
+        const state = states.get(id) ?? makeInstanceState(position, colors);
+
+        states.set(id, state);
+
+        const { positionTween, colorTween } = state;
+        const { background } = colors;
+
+        // the same as useSpawnAnimation in Box
+        if (isNew) {
+          if (!['SPAWN', 'INIT', 'REVERT'].includes(phase)) {
+            return;
+          }
+
+          state.position.copy(position);
+          state.background.set(background);
+          state.fontColor.set(colors.color);
+
+          gsap.timeline({ onComplete: onAnimationComplete }).fromTo(
+            state.scale,
+            {
+              x: 0.01,
+              y: 0.01,
+            },
+            {
+              duration: durations.spawn,
+              x: 1,
+              y: 1,
+              ease: 'Back.easeOut',
+            },
+          );
+          return;
+        }
+
+        // the same as useUpdateAnimation in Box
+        if (!['ACTIVE', 'REVERT'].includes(phase)) {
+          return;
+        }
+
+        state.fontColor.set(colors.color);
+        gsap.killTweensOf(colorTween);
+        colorTween.fromColor = `#${state.background.getHexString()}`;
+
+        const timeline = gsap
+          .timeline({ onComplete: onAnimationComplete })
+          .fromTo(
+            positionTween,
+            {
+              tweenPosition: 0,
+            },
+            {
+              duration: durations.move,
+              tweenPosition: 1,
+              ease: 'Power3.inOut',
+              onUpdate: () => {
+                state.position.lerpVectors(
+                  positionTween.fromPosition,
+                  position,
+                  positionTween.tweenPosition,
+                );
+              },
+              onComplete: () => {
+                positionTween.fromPosition.copy(position);
+              },
+            },
+          )
+          .fromTo(
+            colorTween,
+            {
+              tweenPosition: 0,
+            },
+            {
+              duration: durations.move,
+              tweenPosition: 1,
+              ease: 'linear',
+              onUpdate: () => {
+                state.background.set(
+                  gsap.utils.interpolate(
+                    colorTween.fromColor,
+                    background,
+                    colorTween.tweenPosition,
+                  ),
+                );
+              },
+              onComplete: () => {
+                colorTween.fromColor = background;
+              },
+            },
+            '<',
+          );
+
+        if (isMerged) {
+          timeline.to(
+            state.scale,
+            {
+              duration: durations.merge,
+              x: 0.01,
+              y: 0.01,
+              ease: 'Power3.inOut',
+            },
+            `>-${durations.merge}`,
+          );
+        }
+      });
+    });
+
+    return () => {
+      ctx.kill();
+    };
+  }, [boxViewData, phase]);
+
+  // the same as the theme cross-fade in Box
+  useEffect(() => {
+    const fromTheme = previousTheme.current;
+
+    previousTheme.current = theme;
+
+    if (fromTheme === theme) {
+      return;
+    }
+
+    const { durations } = animationSettings.current;
+
+    const ctx = gsap.context(() => {
+      latestBoxViewData.current.forEach(({ id, value }) => {
+        const state = instanceStates.current.get(id);
+
+        if (!state) {
+          return;
+        }
+
+        const { colorTween } = state;
+        const fromFontColor = `#${state.fontColor.getHexString()}`;
+        const { color, background } = getBoxColors(theme, value);
+
+        gsap.killTweensOf(colorTween);
+        colorTween.fromColor = `#${state.background.getHexString()}`;
+
+        gsap.fromTo(
+          colorTween,
+          {
+            tweenPosition: 0,
+          },
+          {
+            duration: durations.themeFade,
+            tweenPosition: 1,
+            ease: 'linear',
+            onUpdate: () => {
+              state.background.set(
+                gsap.utils.interpolate(
+                  colorTween.fromColor,
+                  background,
+                  colorTween.tweenPosition,
+                ),
+              );
+              state.fontColor.set(
+                gsap.utils.interpolate(
+                  fromFontColor,
+                  color,
+                  colorTween.tweenPosition,
+                ),
+              );
+            },
+            onComplete: () => {
+              colorTween.fromColor = background;
+            },
+          },
+        );
+      });
+    });
+
+    return () => {
+      ctx.kill();
+    };
+  }, [theme]);
+
+  // the same as useMergePunch in Box
+  useEffect(() => {
+    const ctx = gsap.context(() => {});
+
+    const unsubscribe = subscribeToMerges((merge) => {
+      const state = instanceStates.current.get(merge.id);
+      const { durations } = animationSettings.current;
+
+      if (!state || !durations.mergePunch) {
+        return;
+      }
+
+      const { punchScale } = getMergeEffectSize(merge.value);
+
+      ctx.add(() => {
+        gsap.killTweensOf(state.scale);
+        gsap
+          .timeline({ delay: durations.move })
+          .to(state.scale, {
+            duration: durations.mergePunch / 2,
+            x: punchScale,
+            y: punchScale,
+            ease: 'power2.out',
+          })
+          .to(state.scale, {
+            duration: durations.mergePunch / 2,
+            x: 1,
+            y: 1,
+            ease: 'power2.in',
+          });
+      });
+    });
+
+    return () => {
+      unsubscribe();
+      ctx.kill();
+    };
+  }, [subscribeToMerges]);
+
+  return instanceStates;
+};
+
+/**
+ * Draws every box with a single InstancedMesh, sharing one geometry and one material, for
+ * boards large enough that a mesh, material and frame callback per Box adds up. Tweens run
+ * on plain per box state, which is copied into the instance attributes once a frame
+ */
+export default function BoxInstances({
+  boxViewData,
+  phase,
+  texture,
+  sheet,
+  capacity,
+  theme,
+  animations: { durations, floatNoiseFactor },
+  subscribeToMerges,
+  onAnimationComplete,
+}: BoxInstancesProps) {
+  const mesh = useRef<InstancedMesh>(null);
+  const { geometry, attributes } = useInstancedGeometry(capacity);
+  const material = useInstancedMaterial(texture, sheet, floatNoiseFactor);
+  // the point light's shadows are drawn as distances from it
+  const shadowMaterial = useInstancedShadowMaterial();
+  const instanceStates = useInstanceAnimations(
+    boxViewData,
+    phase,
+    theme,
+    durations,
+    subscribeToMerges,
+    onAnimationComplete,
+  );
+
+  // positions come from the instance attributes, but normals are still transformed by
+  // the instance matrix, which starts out zeroed
+  useLayoutEffect(() => {
+    if (!mesh.current) {
+      return;
+    }
+
+    const identity = new Matrix4();
+
+    for (let i = 0; i < capacity; ++i) {
+      mesh.current.setMatrixAt(i, identity);
+    }
+
+    mesh.current.instanceMatrix.needsUpdate = true;
+  }, [capacity, geometry, material]);
+
+  useFrame((_, delta) => {
+    if (!mesh.current) {
+      return;
+    }
+
+    material.uniforms.time.value += delta;
+
+    boxViewData.slice(0, capacity).forEach(({ id, value }, index) => {
+      const state = instanceStates.current.get(id);
+
+      if (!state) {
+        return;
+      }
+
+      const { position, scale, background, fontColor } = state;
+      const { uMin, vMin } = getFrameUvRange(sheet, value);
+
+      attributes.instanceOffset.setXYZ(index, position.x, position.y, 0);
+      attributes.instanceScale.setXY(index, scale.x, scale.y);
+      attributes.instanceFrameOffset.setXY(index, uMin, vMin);
+      attributes.instanceBackground.setXYZ(
+        index,
+        background.r,
+        background.g,
+        background.b,
+      );
+      attributes.instanceFontColor.setXYZ(
+        index,
+        fontColor.r,
+        fontColor.g,
+        fontColor.b,
+      );
+    });
+
+    Object.values(attributes).forEach((attribute) => {
+      attribute.needsUpdate = true;
+    });
+    mesh.current.count = Math.min(boxViewData.length, capacity);
+  });
+
+  return (
+    <instancedMesh
+      ref={mesh}
+      args={[geometry, material, capacity]}
+      castShadow={true}
+      customDistanceMaterial={shadowMaterial}
+      // instances are positioned in the shader, so the mesh's own bounds mean nothing
+      frustumCulled={false}
+    />
+  );
+}
@@ -0,0 +1,115 @@
+import React from 'react';
+import styled, { keyframes } from 'styled-components';
+
+import { Phase } from './types';
+
+const fadeIn = keyframes`
+  from {
+    opacity: 0;
+  }
+
+  to {
+    opacity: 1;
+  }
+`;
+
+const OverlayContainer = styled.div`
+  position: absolute;
+  inset: 0;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 24px;
+  background: rgba(238, 228, 218, 0.73);
+  color: #776e65;
+  animation: ${fadeIn} 0.8s ease-in;
+`;
+
+const Title = styled.h2`
+  margin: 0;
+  font-size: 60px;
+`;
+
+const Stats = styled.dl`
+  display: grid;
+  grid-template-columns: auto auto;
+  gap: 4px 16px;
+  margin: 0;
+  font-size: 18px;
+
+  dt {
+    font-weight: bold;
+  }
+
+  dd {
+    margin: 0;
+    text-align: right;
+  }
+`;
+
+const Buttons = styled.div`
+  display: flex;
+  gap: 12px;
+`;
+
+export const Button = styled.button`
+  padding: 10px 20px;
+  border: 0;
+  border-radius: 6px;
+  background: #8f7a66;
+  color: #f9f6f2;
+  font-size: 18px;
+  font-weight: bold;
+  cursor: pointer;
+`;
+
+type GameOverlayProps = {
+  phase: Phase;
+  score: number;
+  bestScore: number;
+  moveCount: number;
+  maxBlockValue: number;
+  onKeepPlaying: () => void;
+  onNewGame: () => void;
+};
+
+// the final board stays rendered in the Canvas underneath, only covered by the overlay
+export default function GameOverlay({
+  phase,
+  score,
+  bestScore,
+  moveCount,
+  maxBlockValue,
+  onKeepPlaying,
+  onNewGame,
+}: GameOverlayProps) {
+  if (phase !== 'WON' && phase !== 'GAME_OVER') {
+    return null;
+  }
+
+  const isWon = phase === 'WON';
+
+  return (
+    <OverlayContainer
+      role="dialog"
+      aria-label={isWon ? 'You win' : 'Game over'}
+    >
+      <Title>{isWon ? 'You win!' : 'Game over!'}</Title>
+      <Stats>
+        <dt>Score</dt>
+        <dd>{score}</dd>
+        <dt>Best</dt>
+        <dd>{bestScore}</dd>
+        <dt>Moves</dt>
+        <dd>{moveCount}</dd>
+        <dt>Highest tile</dt>
+        <dd>{maxBlockValue}</dd>
+      </Stats>
+      <Buttons>
+        {isWon && <Button onClick={onKeepPlaying}>Keep going</Button>}
+        <Button onClick={onNewGame}>New game</Button>
+      </Buttons>
+    </OverlayContainer>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+
+import {
+  DirectionName,
+  DIRECTION_VECTORS,
+  KeyBindings,
+  KEY_BINDING_PRESETS,
+} from './input';
+
+const PanelContainer = styled.fieldset`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin: 0;
+  border: 2px solid #bbada0;
+  border-radius: 6px;
+  color: #776e65;
+`;
+
+const BindingRow = styled.label`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+  text-transform: capitalize;
+`;
+
+const KeyButton = styled.button`
+  min-width: 80px;
+  padding: 4px 8px;
+  border: 0;
+  border-radius: 4px;
+  background: #eee4da;
+  color: #776e65;
+  cursor: pointer;
+`;
+
+const CUSTOM_PRESET = 'custom';
+
+const findPreset = (keyBindings: KeyBindings): string =>
+  Object.keys(KEY_BINDING_PRESETS).find((name) =>
+    (Object.keys(DIRECTION_VECTORS) as DirectionName[]).every(
+      (direction) =>
+        KEY_BINDING_PRESETS[name][direction] === keyBindings[direction],
+    ),
+  ) ?? CUSTOM_PRESET;
+
+const formatKey = (key: string) => (key === ' ' ? 'Space' : key);
+
+type KeyBindingsPanelProps = {
+  keyBindings: KeyBindings;
+  onChange: (keyBindings: KeyBindings) => void;
+};
+
+export default function KeyBindingsPanel({
+  keyBindings,
+  onChange,
+}: KeyBindingsPanelProps) {
+  const [listeningFor, setListeningFor] = useState<DirectionName | null>(null);
+
+  useEffect(() => {
+    if (!listeningFor) {
+      return;
+    }
+
+    // capture the next key before the game's own keyboard input can see it
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+
+      if (e.key !== 'Escape') {
+        onChange({
+          ...keyBindings,
+          [listeningFor]: e.key,
+        });
+      }
+
+      setListeningFor(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () =>
+      window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [listeningFor, keyBindings, onChange]);
+
+  return (
+    <PanelContainer>
+      <legend>Controls</legend>
+      <BindingRow>
+        Keys
+        <select
+          value={findPreset(keyBindings)}
+          onChange={(e) => {
+            const preset = KEY_BINDING_PRESETS[e.target.value];
+
+            // stop keyboard focus on the select changing it with the next move
+            e.currentTarget.blur();
+
+            if (preset) {
+              onChange(preset);
+            }
+          }}
+        >
+          <option value="arrows">Arrows</option>
+          <option value="wasd">WASD</option>
+          <option value="vim">Vim (hjkl)</option>
+          <option value={CUSTOM_PRESET} disabled>
+            Custom
+          </option>
+        </select>
+      </BindingRow>
+      {(Object.keys(DIRECTION_VECTORS) as DirectionName[]).map((direction) => (
+        <BindingRow key={direction}>
+          {direction}
+          <KeyButton
+            type="button"
+            onClick={(e) => {
+              // stop keyboard focus on the button triggering another rebind
+              e.currentTarget.blur();
+              setListeningFor(direction);
+            }}
+          >
+            {listeningFor === direction
+              ? 'Press a key…'
+              : formatKey(keyBindings[direction])}
+          </KeyButton>
+        </BindingRow>
+      ))}
+    </PanelContainer>
+  );
+}
@@ -0,0 +1,247 @@
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react';
+import {
+  BufferAttribute,
+  BufferGeometry,
+  CanvasTexture,
+  Points,
+  PointsMaterial,
+  Sprite,
+  SpriteMaterial,
+  Vector3,
+} from 'three';
+import gsap from 'gsap';
+
+import { AnimationDurations, Animations } from './animation';
+import { gridToScreenPosition } from './gridUtils';
+import {
+  drawScoreText,
+  getMergeEffectSize,
+  makeParticleOffsets,
+  SubscribeToMerges,
+} from './mergeEffectUtils';
+import { getBoxColors, Theme } from './themes';
+import { Grid } from './types';
+
+// in front of the boxes, so that nothing is hidden inside them
+const EFFECT_DEPTH = 0.7;
+
+type MergeEffectProps = {
+  effectKey: number;
+  value: number;
+  position: Vector3;
+  theme: Theme;
+  durations: AnimationDurations;
+  onComplete: (effectKey: number) => void;
+};
+
+function MergeEffect({
+  effectKey,
+  value,
+  position,
+  theme,
+  durations,
+  onComplete,
+}: MergeEffectProps) {
+  const points = useRef<Points>(null);
+  const sprite = useRef<Sprite>(null);
+  const size = getMergeEffectSize(value);
+  const colors = getBoxColors(theme, value);
+  // only made once, a theme change part of the way through an effect doesn't matter
+  const [{ offsets, geometry, texture }] = useState(() => {
+    const particleOffsets = makeParticleOffsets(
+      size.particleCount,
+      size.particleSpread,
+    );
+    const bufferGeometry = new BufferGeometry();
+
+    bufferGeometry.setAttribute(
+      'position',
+      new BufferAttribute(new Float32Array(size.particleCount * 3), 3),
+    );
+
+    return {
+      offsets: particleOffsets,
+      geometry: bufferGeometry,
+      texture: new CanvasTexture(drawScoreText(value, colors)),
+    };
+  });
+
+  useEffect(
+    () => () => {
+      geometry.dispose();
+      texture.dispose();
+    },
+    [geometry, texture],
+  );
+
+  useLayoutEffect(() => {
+    const burstMaterial = points.current?.material as PointsMaterial;
+    const floaterMaterial = sprite.current?.material as SpriteMaterial;
+
+    if (!burstMaterial || !floaterMaterial || !sprite.current) {
+      return;
+    }
+
+    const burst = { progress: 0 };
+    const particlePositions = geometry.getAttribute(
+      'position',
+    ) as BufferAttribute;
+
+    const ctx = gsap.context(() => {
+      if (!sprite.current) {
+        return;
+      }
+
+      // The effects start as the merging blocks meet, at the end of the move. Nothing is
+      // rendered until then, so the effects stay hidden whilst the blocks are moving
+      gsap
+        .timeline({
+          delay: durations.move,
+          onComplete: () => onComplete(effectKey),
+        })
+        .fromTo(
+          burst,
+          { progress: 0 },
+          {
+            progress: 1,
+            immediateRender: false,
+            duration: durations.mergeBurst,
+            ease: 'power2.out',
+            onUpdate: () => {
+              offsets.forEach((offset, index) => {
+                particlePositions.setXYZ(
+                  index,
+                  offset.x * burst.progress,
+                  offset.y * burst.progress,
+                  offset.z,
+                );
+              });
+              particlePositions.needsUpdate = true;
+              burstMaterial.opacity = 1 - burst.progress;
+            },
+          },
+        )
+        .fromTo(
+          sprite.current.position,
+          { y: 0 },
+          {
+            y: size.floaterSize * 2,
+            immediateRender: false,
+            duration: durations.scoreFloater,
+            ease: 'power1.out',
+          },
+          0,
+        )
+        .fromTo(
+          floaterMaterial,
+          { opacity: 1 },
+          {
+            opacity: 0,
+            immediateRender: false,
+            duration: durations.scoreFloater / 2,
+            ease: 'power1.in',
+          },
+          durations.scoreFloater / 2,
+        );
+    });
+
+    return () => {
+      ctx.kill();
+    };
+  }, [effectKey, geometry, offsets, size, durations, onComplete]);
+
+  return (
+    <group position={[position.x, position.y, EFFECT_DEPTH]}>
+      <points ref={points} geometry={geometry}>
+        <pointsMaterial
+          color={colors.background}
+          size={size.particleSize}
+          transparent={true}
+          opacity={0}
+          depthWrite={false}
+        />
+      </points>
+      <sprite ref={sprite} scale={[size.floaterSize * 2, size.floaterSize, 1]}>
+        <spriteMaterial
+          map={texture}
+          transparent={true}
+          opacity={0}
+          depthWrite={false}
+        />
+      </sprite>
+    </group>
+  );
+}
+
+type MergeEffectsProps = {
+  subscribeToMerges: SubscribeToMerges;
+  grid: Pick<Grid, 'width' | 'height'>;
+  theme: Theme;
+  animations: Animations;
+};
+
+type ActiveMergeEffect = {
+  key: number;
+  value: number;
+  position: Vector3;
+};
+
+/**
+ * A burst of particles and a floating "+N" for every merge, as the engine reports them.
+ * Each effect removes itself once it's played, and none are played when animations are
+ * turned off or motion is reduced
+ */
+export default function MergeEffects({
+  subscribeToMerges,
+  grid: { width, height },
+  theme,
+  animations: { durations },
+}: MergeEffectsProps) {
+  const [effects, setEffects] = useState<ActiveMergeEffect[]>([]);
+  const nextKey = useRef(0);
+  const isEnabled = durations.mergeBurst > 0 || durations.scoreFloater > 0;
+
+  useEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
+
+    return subscribeToMerges(({ value, position }) => {
+      nextKey.current += 1;
+
+      const effect = {
+        key: nextKey.current,
+        value,
+        position: gridToScreenPosition({ width, height }, position),
+      };
+
+      setEffects((current) => [...current, effect]);
+    });
+  }, [subscribeToMerges, width, height, isEnabled]);
+
+  const removeEffect = useCallback((key: number) => {
+    setEffects((current) => current.filter((effect) => effect.key !== key));
+  }, []);
+
+  return (
+    <>
+      {effects.map(({ key, value, position }) => (
+        <MergeEffect
+          key={key}
+          effectKey={key}
+          value={value}
+          position={position}
+          theme={theme}
+          durations={durations}
+          onComplete={removeEffect}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Vector3 } from 'three';
+
+import { BOX_SIZE } from './consts';
+import { Theme } from './themes';
+
+type ObstacleProps = {
+  position: Vector3;
+  theme: Theme;
+};
+
+// a faceted stone, so that it can't be mistaken for a block
+export default function Obstacle({ position, theme }: ObstacleProps) {
+  return (
+    <mesh position={position} rotation={[0.4, 0.3, 0]} castShadow={true}>
+      <dodecahedronGeometry args={[BOX_SIZE * 0.6]} />
+      <meshLambertMaterial color={theme.board.obstacle} flatShading={true} />
+    </mesh>
+  );
+}
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+
+import {
+  decodeRecording,
+  encodeRecording,
+  GameRecording,
+  replayRecording,
+} from './replay';
+
+const PanelContainer = styled.fieldset`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin: 0;
+  border: 2px solid #bbada0;
+  border-radius: 6px;
+  color: #776e65;
+`;
+
+const ReplayRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+`;
+
+const ReplayButton = styled.button`
+  min-width: 80px;
+  padding: 4px 8px;
+  border: 0;
+  border-radius: 4px;
+  background: #eee4da;
+  color: #776e65;
+  cursor: pointer;
+`;
+
+const ImportInput = styled.textarea`
+  width: 100%;
+  min-height: 60px;
+  box-sizing: border-box;
+  font-family: monospace;
+`;
+
+const ReplayError = styled.p`
+  margin: 0;
+  color: #f65e3b;
+`;
+
+const getReplayUrl = (recording: GameRecording) => {
+  const url = new URL(window.location.href);
+
+  url.search = new URLSearchParams({
+    replay: encodeRecording(recording),
+  }).toString();
+
+  return url.toString();
+};
+
+// checks the whole recording plays back before watching it, rather than failing part way
+const parseRecording = (text: string): GameRecording => {
+  const recording = decodeRecording(text);
+
+  replayRecording(recording);
+
+  return recording;
+};
+
+type ReplayPanelProps =
+  | {
+      // playing a game, which can be shared or swapped for a recording
+      getRecording: () => GameRecording | null;
+      onWatch: (recording: GameRecording) => void;
+    }
+  | {
+      // watching a recording
+      index: number;
+      total: number;
+      isPlaying: boolean;
+      onPlayingChange: (isPlaying: boolean) => void;
+      onStep: () => void;
+      onExit: () => void;
+      // why the replay stopped, if it no longer matches the recording
+      error: string | null;
+    };
+
+export default function ReplayPanel(props: ReplayPanelProps) {
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  if ('onExit' in props) {
+    const { index, total, isPlaying, onPlayingChange, onStep, onExit, error } =
+      props;
+    const isFinished = index >= total || Boolean(error);
+
+    return (
+      <PanelContainer>
+        <legend>Replay</legend>
+        <ReplayRow>
+          Move {index} / {total}
+          <ReplayButton
+            type="button"
+            disabled={isFinished}
+            onClick={() => onPlayingChange(!isPlaying)}
+          >
+            {isPlaying ? 'Pause' : 'Play'}
+          </ReplayButton>
+        </ReplayRow>
+        <ReplayRow>
+          <ReplayButton
+            type="button"
+            disabled={isPlaying || isFinished}
+            onClick={onStep}
+          >
+            Step
+          </ReplayButton>
+          <ReplayButton type="button" onClick={onExit}>
+            Exit
+          </ReplayButton>
+        </ReplayRow>
+        {error && <ReplayError>{error}</ReplayError>}
+      </PanelContainer>
+    );
+  }
+
+  const { getRecording, onWatch } = props;
+
+  const copy =
+    (label: string, getText: (recording: GameRecording) => string) =>
+    // clipboard access is best effort, the same as storage
+    (e: React.MouseEvent<HTMLButtonElement>) => {
+      // stop keyboard focus on the button swallowing moves
+      e.currentTarget.blur();
+
+      const recording = getRecording();
+
+      if (recording) {
+        navigator.clipboard
+          ?.writeText(getText(recording))
+          .then(() => setCopied(label))
+          .catch(() => setCopied(null));
+      }
+    };
+
+  return (
+    <PanelContainer>
+      <legend>Replay</legend>
+      <ReplayRow>
+        {copied ? `Copied ${copied}` : 'Share this game'}
+        <ReplayButton type="button" onClick={copy('link', getReplayUrl)}>
+          Copy link
+        </ReplayButton>
+      </ReplayRow>
+      <ReplayRow>
+        <span />
+        <ReplayButton
+          type="button"
+          onClick={copy('JSON', (recording) => JSON.stringify(recording))}
+        >
+          Copy JSON
+        </ReplayButton>
+      </ReplayRow>
+      <ImportInput
+        placeholder="Paste a recording to watch it"
+        value={importText}
+        // typing a recording shouldn't also move the blocks
+        onKeyDown={(e) => e.stopPropagation()}
+        onChange={(e) => {
+          setImportText(e.target.value);
+          setImportError(null);
+        }}
+      />
+      {importError && <ReplayError>{importError}</ReplayError>}
+      <ReplayRow>
+        <span />
+        <ReplayButton
+          type="button"
+          disabled={!importText.trim()}
+          onClick={() => {
+            try {
+              onWatch(parseRecording(importText));
+            } catch (error) {
+              setImportError((error as Error).message);
+            }
+          }}
+        >
+          Watch
+        </ReplayButton>
+      </ReplayRow>
+    </PanelContainer>
+  );
+}
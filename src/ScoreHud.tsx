@@ -0,0 +1,58 @@
+import React from 'react';
+import styled from 'styled-components';
+
+const HudContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+  min-width: 140px;
+`;
+
+const ScoreBox = styled.div`
+  padding: 8px 16px;
+  border-radius: 6px;
+  background: #bbada0;
+  color: #f9f6f2;
+  text-align: center;
+`;
+
+const ScoreLabel = styled.div`
+  font-size: 13px;
+  font-weight: bold;
+  text-transform: uppercase;
+  color: #eee4da;
+`;
+
+const ScoreValue = styled.div`
+  font-size: 24px;
+  font-weight: bold;
+`;
+
+type ScoreHudProps = {
+  score: number;
+  bestScore: number;
+  moveCount: number;
+};
+
+export default function ScoreHud({
+  score,
+  bestScore,
+  moveCount,
+}: ScoreHudProps) {
+  return (
+    <HudContainer>
+      <ScoreBox>
+        <ScoreLabel>Score</ScoreLabel>
+        <ScoreValue>{score}</ScoreValue>
+      </ScoreBox>
+      <ScoreBox>
+        <ScoreLabel>Best</ScoreLabel>
+        <ScoreValue>{bestScore}</ScoreValue>
+      </ScoreBox>
+      <ScoreBox>
+        <ScoreLabel>Moves</ScoreLabel>
+        <ScoreValue>{moveCount}</ScoreValue>
+      </ScoreBox>
+    </HudContainer>
+  );
+}
@@ -0,0 +1,270 @@
+import React from 'react';
+import styled from 'styled-components';
+
+import {
+  BoardShape,
+  ANIMATION_SPEED_OPTIONS,
+  GameSettings,
+  INPUT_QUEUE_DEPTH_OPTIONS,
+  QueuedAnimations,
+  SpawnRulesPresetName,
+  WIN_VALUE_OPTIONS,
+} from './settings';
+import { ThemeName, THEMES } from './themes';
+import { buildArray } from './gridUtils';
+import { MAX_GRID_SIZE, MIN_GRID_SIZE } from './consts';
+
+const PanelContainer = styled.fieldset`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin: 0;
+  border: 2px solid #bbada0;
+  border-radius: 6px;
+  color: #776e65;
+`;
+
+const SettingRow = styled.label`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+`;
+
+const GRID_SIZE_OPTIONS = buildArray(
+  MAX_GRID_SIZE - MIN_GRID_SIZE + 1,
+  (index) => MIN_GRID_SIZE + index,
+);
+
+const BOARD_SHAPE_LABELS: Record<BoardShape, string> = {
+  square: 'Square',
+  cross: 'Cross',
+  donut: 'Donut',
+  lShape: 'L-shape',
+};
+
+const SPAWN_RULES_LABELS: Record<SpawnRulesPresetName, string> = {
+  classic: 'Classic (2s and 4s)',
+  twos: 'Only 2s',
+  generous: 'Generous (up to 8s)',
+};
+
+const QUEUED_ANIMATIONS_LABELS: Record<QueuedAnimations, string> = {
+  play: 'Play them out',
+  speedUp: 'Speed them up',
+  skip: 'Skip them',
+};
+
+type SettingsPanelProps = {
+  settings: GameSettings;
+  // changing the board or the rules starts a new game
+  onChange: (settings: GameSettings) => void;
+};
+
+export default function SettingsPanel({
+  settings,
+  onChange,
+}: SettingsPanelProps) {
+  const {
+    gridSize,
+    boardShape,
+    winValue,
+    spawnRules,
+    theme,
+    bumpAnimation,
+    inputQueueDepth,
+    queuedAnimations,
+    animationSpeed,
+    instantAnimations,
+  } = settings;
+
+  return (
+    <PanelContainer>
+      <legend>Settings</legend>
+      <SettingRow>
+        Board
+        <select
+          value={boardShape}
+          onChange={(e) => {
+            // stop keyboard focus on the select changing it with the next move
+            e.currentTarget.blur();
+            onChange({
+              ...settings,
+              boardShape: e.target.value as BoardShape,
+            });
+          }}
+        >
+          {Object.entries(BOARD_SHAPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </SettingRow>
+      <SettingRow>
+        Size
+        <select
+          value={gridSize}
+          // the preset shapes have a fixed size
+          disabled={boardShape !== 'square'}
+          onChange={(e) => {
+            e.currentTarget.blur();
+            onChange({
+              ...settings,
+              gridSize: Number(e.target.value),
+            });
+          }}
+        >
+          {GRID_SIZE_OPTIONS.map((size) => (
+            <option key={size} value={size}>
+              {size} × {size}
+            </option>
+          ))}
+        </select>
+      </SettingRow>
+      <SettingRow>
+        Win at
+        <select
+          value={winValue}
+          onChange={(e) => {
+            e.currentTarget.blur();
+            onChange({
+              ...settings,
+              winValue: Number(e.target.value),
+            });
+          }}
+        >
+          {WIN_VALUE_OPTIONS.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      </SettingRow>
+      <SettingRow>
+        Spawns
+        <select
+          value={spawnRules}
+          onChange={(e) => {
+            e.currentTarget.blur();
+            onChange({
+              ...settings,
+              spawnRules: e.target.value as SpawnRulesPresetName,
+            });
+          }}
+        >
+          {Object.entries(SPAWN_RULES_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </SettingRow>
+      <SettingRow>
+        Theme
+        <select
+          value={theme}
+          onChange={(e) => {
+            e.currentTarget.blur();
+            onChange({
+              ...settings,
+              theme: e.target.value as ThemeName,
+            });
+          }}
+        >
+          {Object.entries(THEMES).map(([value, { label }]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </SettingRow>
+      <SettingRow>
+        Shake on a blocked move
+        <input
+          type="checkbox"
+          checked={bumpAnimation}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              bumpAnimation: e.target.checked,
+            })
+          }
+        />
+      </SettingRow>
+      <SettingRow>
+        Moves queued during animations
+        <select
+          value={inputQueueDepth}
+          onChange={(e) => {
+            e.currentTarget.blur();
+            onChange({
+              ...settings,
+              inputQueueDepth: Number(e.target.value),
+            });
+          }}
+        >
+          {INPUT_QUEUE_DEPTH_OPTIONS.map((depth) => (
+            <option key={depth} value={depth}>
+              {depth || 'None'}
+            </option>
+          ))}
+        </select>
+      </SettingRow>
+      <SettingRow>
+        Animations with moves queued
+        <select
+          value={queuedAnimations}
+          // there's nothing to hurry for without a queue
+          disabled={!inputQueueDepth}
+          onChange={(e) => {
+            e.currentTarget.blur();
+            onChange({
+              ...settings,
+              queuedAnimations: e.target.value as QueuedAnimations,
+            });
+          }}
+        >
+          {Object.entries(QUEUED_ANIMATIONS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </SettingRow>
+      <SettingRow>
+        Animation speed
+        <select
+          value={animationSpeed}
+          disabled={instantAnimations}
+          onChange={(e) => {
+            e.currentTarget.blur();
+            onChange({
+              ...settings,
+              animationSpeed: Number(e.target.value),
+            });
+          }}
+        >
+          {ANIMATION_SPEED_OPTIONS.map((speed) => (
+            <option key={speed} value={speed}>
+              {speed}×
+            </option>
+          ))}
+        </select>
+      </SettingRow>
+      <SettingRow>
+        Instant moves
+        <input
+          type="checkbox"
+          checked={instantAnimations}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              instantAnimations: e.target.checked,
+            })
+          }
+        />
+      </SettingRow>
+    </PanelContainer>
+  );
+}
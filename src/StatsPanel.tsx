@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react';
+import styled from 'styled-components';
+
+import { GameStats, getStatsSummary, statsToCsv } from './stats';
+
+const PanelContainer = styled.fieldset`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin: 0;
+  border: 2px solid #bbada0;
+  border-radius: 6px;
+  color: #776e65;
+`;
+
+const Summary = styled.dl`
+  display: grid;
+  grid-template-columns: auto auto;
+  gap: 4px 16px;
+  margin: 0;
+
+  dt {
+    font-weight: bold;
+  }
+
+  dd {
+    margin: 0;
+    text-align: right;
+  }
+`;
+
+const Histogram = styled.ul`
+  display: flex;
+  flex-direction: column;
+  gap: 2px;
+  margin: 0;
+  padding: 0;
+  list-style: none;
+  font-size: 13px;
+`;
+
+const HistogramRow = styled.li`
+  display: grid;
+  grid-template-columns: 48px 1fr 32px;
+  align-items: center;
+  gap: 8px;
+`;
+
+const HistogramBar = styled.div`
+  height: 10px;
+  border-radius: 2px;
+  background: #edc22e;
+`;
+
+const ExportButton = styled.button`
+  padding: 4px 8px;
+  border: 0;
+  border-radius: 4px;
+  background: #eee4da;
+  color: #776e65;
+  cursor: pointer;
+`;
+
+const downloadCsv = (csv: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+type StatsPanelProps = {
+  stats: GameStats;
+};
+
+export default function StatsPanel({ stats }: StatsPanelProps) {
+  const {
+    gamesPlayed,
+    winRate,
+    highestBlockValue,
+    averageScore,
+    averageMoveCount,
+    maxBlockValueCounts,
+  } = useMemo(() => getStatsSummary(stats), [stats]);
+  const maxCount = Math.max(
+    1,
+    ...maxBlockValueCounts.map(({ count }) => count),
+  );
+
+  return (
+    <PanelContainer>
+      <legend>Statistics</legend>
+      <Summary>
+        <dt>Games</dt>
+        <dd>{gamesPlayed}</dd>
+        <dt>Win rate</dt>
+        <dd>{Math.round(winRate * 100)}%</dd>
+        <dt>Highest tile</dt>
+        <dd>{highestBlockValue}</dd>
+        <dt>Average score</dt>
+        <dd>{Math.round(averageScore)}</dd>
+        <dt>Average moves</dt>
+        <dd>{Math.round(averageMoveCount)}</dd>
+      </Summary>
+      {maxBlockValueCounts.length > 0 && (
+        <Histogram aria-label="Highest tile per game">
+          {maxBlockValueCounts.map(({ value, count }) => (
+            <HistogramRow key={value}>
+              {value}
+              <HistogramBar style={{ width: `${(count / maxCount) * 100}%` }} />
+              {count}
+            </HistogramRow>
+          ))}
+        </Histogram>
+      )}
+      <ExportButton
+        type="button"
+        disabled={!gamesPlayed}
+        onClick={(e) => {
+          // stop keyboard focus on the button swallowing moves
+          e.currentTarget.blur();
+          downloadCsv(statsToCsv(stats), '2048-stats.csv');
+        }}
+      >
+        Export CSV
+      </ExportButton>
+    </PanelContainer>
+  );
+}
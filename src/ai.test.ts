@@ -0,0 +1,74 @@
+import { Grid } from './types';
+import { evaluateGrid, findBestMove } from './ai';
+import { makeEmptyGrid, getMaxBlockValue, setBlockAt } from './gridUtils';
+import { createGameEngine } from './gameEngine';
+import { DEFAULT_SPAWN_RULES } from './consts';
+
+const makeGrid = (values: (number | null)[][]): Grid => {
+  const grid = makeEmptyGrid(values[0].length, values.length);
+
+  values.forEach((row, y) =>
+    row.forEach((value, x) => {
+      if (value) {
+        setBlockAt({ x, y }, { id: `${x},${y}`, value, isNew: false }, grid);
+      }
+    }),
+  );
+
+  return grid;
+};
+
+describe('ai', () => {
+  it('prefers ordered boards to scattered ones', () => {
+    const ordered = makeGrid([
+      [128, 64, 32],
+      [4, 8, 16],
+      [2, null, null],
+    ]);
+    const scattered = makeGrid([
+      [2, 64, 4],
+      [128, 8, 32],
+      [16, null, null],
+    ]);
+
+    expect(evaluateGrid(ordered)).toBeGreaterThan(evaluateGrid(scattered));
+  });
+
+  it('only makes moves which change the board', () => {
+    const grid = makeGrid([
+      [2, 4],
+      [2, 8],
+    ]);
+    const direction = findBestMove(grid, DEFAULT_SPAWN_RULES);
+
+    expect(direction?.x).toEqual(0);
+    expect(
+      findBestMove(
+        makeGrid([
+          [2, 4],
+          [4, 2],
+        ]),
+        DEFAULT_SPAWN_RULES,
+      ),
+    ).toEqual(null);
+  });
+
+  it('plays a game', () => {
+    const engine = createGameEngine({ size: 4, seed: 'ai' });
+
+    for (let i = 0; engine.getState().phase === 'INPUT' && i < 1000; ++i) {
+      const { grid, spawnRules } = engine.getState();
+      const direction = findBestMove(grid, spawnRules);
+
+      if (!direction) {
+        break;
+      }
+
+      engine.move(direction);
+    }
+
+    expect(getMaxBlockValue(engine.getState().grid)).toBeGreaterThanOrEqual(
+      256,
+    );
+  });
+});
@@ -0,0 +1,205 @@
+import { Block, Cell, Grid, SpawnRules, Vector } from './types';
+import {
+  buildArray,
+  cloneGrid,
+  findEmptyCellPositions,
+  getCellAt,
+  getColumnAt,
+  getRowAt,
+  hasLost,
+  resolveMove,
+  setCellAt,
+  splitIntoSegments,
+} from './gridUtils';
+import { DIRECTION_VECTORS } from './input';
+
+export type AiHeuristicWeights = {
+  // prefers rows and columns which only ever increase or decrease in value
+  monotonicity: number;
+  // prefers boards with room to manoeuvre
+  emptyCells: number;
+  // prefers neighbouring blocks which are close in value, and so closer to merging
+  smoothness: number;
+};
+
+export type AiOptions = {
+  // how many moves to look ahead, each extra level multiplies the work by roughly
+  // 8 × the number of empty cells
+  depth: number;
+  weights: AiHeuristicWeights;
+};
+
+export const DEFAULT_AI_OPTIONS: AiOptions = {
+  depth: 2,
+  weights: {
+    monotonicity: 1,
+    emptyCells: 2.7,
+    smoothness: 0.1,
+  },
+};
+
+// worse than any board which can still be played
+const LOST_SCORE = -1e6;
+
+const DIRECTIONS = Object.values(DIRECTION_VECTORS);
+
+// heuristics work on log2 values, so a 2048 next to a 1024 is as close as a 4 next to a 2
+const getLogValues = (cells: Cell[]): number[] =>
+  cells
+    .filter((cell) => cell.block)
+    .map((cell) => Math.log2((cell.block as Block).value));
+
+// every row and column, split into the segments that blocks can actually move within
+const getLineSegments = (grid: Grid): Cell[][] =>
+  [
+    ...buildArray(grid.width, (x) => getColumnAt(x, grid)),
+    ...buildArray(grid.height, (y) => getRowAt(y, grid)),
+  ].flatMap(splitIntoSegments);
+
+export function evaluateGrid(
+  grid: Grid,
+  weights: AiHeuristicWeights = DEFAULT_AI_OPTIONS.weights,
+): number {
+  let monotonicity = 0;
+  let smoothness = 0;
+
+  getLineSegments(grid).forEach((segment) => {
+    const values = getLogValues(segment);
+    let increasing = 0;
+    let decreasing = 0;
+
+    for (let i = 1; i < values.length; ++i) {
+      const difference = values[i] - values[i - 1];
+
+      if (difference > 0) {
+        increasing += difference;
+      } else {
+        decreasing -= difference;
+      }
+
+      smoothness -= Math.abs(difference);
+    }
+
+    // only penalise whichever direction the segment mostly isn't going in
+    monotonicity -= Math.min(increasing, decreasing);
+  });
+
+  return (
+    weights.monotonicity * monotonicity +
+    weights.emptyCells * findEmptyCellPositions(grid).length +
+    weights.smoothness * smoothness
+  );
+}
+
+// the same check the engine makes, so the search never picks a move the engine would ignore
+const getValidMoves = (grid: Grid): { direction: Vector; grid: Grid }[] =>
+  DIRECTIONS.map((direction) => ({
+    direction,
+    ...resolveMove(direction, grid),
+  })).filter((move) => move.hasChanged);
+
+let nextSpawnId = 0;
+
+type SearchContext = {
+  weights: AiHeuristicWeights;
+  spawnChances: { value: number; chance: number }[];
+};
+
+// the player picks the best move
+function searchMoves(
+  grid: Grid,
+  depth: number,
+  context: SearchContext,
+): number {
+  if (hasLost(grid)) {
+    return LOST_SCORE;
+  }
+
+  return Math.max(
+    LOST_SCORE,
+    ...getValidMoves(grid).map((move) =>
+      searchSpawns(move.grid, depth - 1, context),
+    ),
+  );
+}
+
+// the game spawns a block at random, so the score is the average over every outcome
+function searchSpawns(
+  grid: Grid,
+  depth: number,
+  context: SearchContext,
+): number {
+  const emptyCellPositions = findEmptyCellPositions(grid);
+
+  if (depth <= 0 || !emptyCellPositions.length) {
+    return evaluateGrid(grid, context.weights);
+  }
+
+  let total = 0;
+
+  emptyCellPositions.forEach((position) => {
+    context.spawnChances.forEach(({ value, chance }) => {
+      const nextGrid = setCellAt(
+        position,
+        {
+          ...getCellAt(position, grid),
+          // moves are tracked by block id, so every spawned block needs its own, which a
+          // counter makes much cheaper than a uuid
+          block: { id: `ai-${nextSpawnId++}`, value, isNew: true },
+        },
+        cloneGrid(grid),
+      );
+
+      total += chance * searchMoves(nextGrid, depth, context);
+    });
+  });
+
+  return total / emptyCellPositions.length;
+}
+
+/**
+ * Expectimax search, alternating between the best move for the player and the average
+ * over every possible spawn. Returns null if there are no moves left to make
+ */
+export function findBestMove(
+  grid: Grid,
+  spawnRules: SpawnRules,
+  { depth, weights }: AiOptions = DEFAULT_AI_OPTIONS,
+): Vector | null {
+  const totalWeight = spawnRules.values.reduce(
+    (total, { weight }) => total + weight,
+    0,
+  );
+  const context: SearchContext = {
+    weights,
+    spawnChances: spawnRules.values.map(({ value, weight }) => ({
+      value,
+      chance: weight / totalWeight,
+    })),
+  };
+  let bestMove: Vector | null = null;
+  let bestScore = -Infinity;
+
+  getValidMoves(grid).forEach((move) => {
+    const score = searchSpawns(move.grid, depth - 1, context);
+
+    if (score > bestScore) {
+      bestMove = move.direction;
+      bestScore = score;
+    }
+  });
+
+  return bestMove;
+}
+
+// messages to and from the search worker, ids match each response to its request
+export type AiRequest = {
+  id: number;
+  grid: Grid;
+  spawnRules: SpawnRules;
+  options: AiOptions;
+};
+export type AiResponse = {
+  id: number;
+  direction: Vector | null;
+};
@@ -0,0 +1,16 @@
+/// <reference lib="webworker" />
+import { AiRequest, AiResponse, findBestMove } from './ai';
+
+// the search can take long enough to drop frames, so it runs off the main thread. Inside
+// a worker self is the worker's own global scope, not the window
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = ({ data }: MessageEvent<AiRequest>) => {
+  const { id, grid, spawnRules, options } = data;
+  const response: AiResponse = {
+    id,
+    direction: findBestMove(grid, spawnRules, options),
+  };
+
+  self.postMessage(response);
+};
@@ -0,0 +1,69 @@
+import gsap from 'gsap';
+
+import {
+  ANIMATION_DURATIONS,
+  DEFAULT_ANIMATION_CONFIG,
+  getAnimations,
+} from './animation';
+import { FLOAT_NOISE_FACTOR } from './consts';
+
+describe('animation', () => {
+  it('scales every duration by the speed', () => {
+    expect(getAnimations(DEFAULT_ANIMATION_CONFIG)).toEqual({
+      durations: ANIMATION_DURATIONS,
+      floatNoiseFactor: FLOAT_NOISE_FACTOR,
+    });
+    expect(
+      getAnimations({ ...DEFAULT_ANIMATION_CONFIG, speed: 2 }).durations,
+    ).toEqual(
+      expect.objectContaining({
+        move: ANIMATION_DURATIONS.move / 2,
+        spawn: ANIMATION_DURATIONS.spawn / 2,
+      }),
+    );
+  });
+
+  it('turns every animation off in instant mode', () => {
+    const { durations } = getAnimations({
+      ...DEFAULT_ANIMATION_CONFIG,
+      isInstant: true,
+    });
+
+    Object.values(durations).forEach((duration) => {
+      expect(duration).toEqual(0);
+    });
+  });
+
+  it('pops blocks into place with reduced motion', () => {
+    const { durations, floatNoiseFactor } = getAnimations({
+      ...DEFAULT_ANIMATION_CONFIG,
+      reducedMotion: true,
+    });
+
+    expect(durations).toEqual({
+      move: 0,
+      merge: 0,
+      spawn: 0,
+      bump: 0,
+      mergePunch: 0,
+      mergeBurst: 0,
+      scoreFloater: 0,
+      themeFade: ANIMATION_DURATIONS.themeFade,
+    });
+    expect(floatNoiseFactor).toEqual(0);
+  });
+
+  it('completes a timeline without a duration on the next tick', () => {
+    const box = { scale: 0 };
+    const onComplete = jest.fn();
+
+    gsap.timeline({ onComplete }).to(box, { scale: 1, duration: 0 });
+
+    expect(box.scale).toEqual(1);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    gsap.ticker.tick();
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+});
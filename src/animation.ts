@@ -0,0 +1,78 @@
+import {
+  BUMP_DURATION,
+  FLOAT_NOISE_FACTOR,
+  THEME_FADE_DURATION,
+} from './consts';
+
+// in seconds, at normal speed
+export const ANIMATION_DURATIONS = {
+  move: 0.333,
+  // the merged block shrinking away at the end of its move
+  merge: 0.15,
+  spawn: 0.333,
+  themeFade: THEME_FADE_DURATION,
+  bump: BUMP_DURATION,
+  // the effects played once merging blocks meet
+  mergePunch: 0.25,
+  mergeBurst: 0.7,
+  scoreFloater: 1,
+};
+
+export type AnimationDurations = typeof ANIMATION_DURATIONS;
+
+export type AnimationConfig = {
+  // every animation plays this many times faster, 0.5 plays them at half speed
+  speed: number;
+  // every change is shown straight away, without animating at all
+  isInstant: boolean;
+  // set from prefers-reduced-motion, blocks pop into place and stop floating
+  reducedMotion: boolean;
+};
+
+export const DEFAULT_ANIMATION_CONFIG: AnimationConfig = {
+  speed: 1,
+  isInstant: false,
+  reducedMotion: false,
+};
+
+export type Animations = {
+  durations: AnimationDurations;
+  // how far the boxes drift about, 0 keeps them still
+  floatNoiseFactor: number;
+};
+
+// colors still fade with reduced motion, as nothing moves
+const MOTION_ANIMATIONS: (keyof AnimationDurations)[] = [
+  'move',
+  'merge',
+  'spawn',
+  'bump',
+  'mergePunch',
+  'mergeBurst',
+  'scoreFloater',
+];
+
+/**
+ * The animations which the phase system waits for are gsap timelines, which still
+ * complete (on the next tick) when their duration is 0, so turning animations off never
+ * holds the game up
+ */
+export function getAnimations({
+  speed,
+  isInstant,
+  reducedMotion,
+}: AnimationConfig): Animations {
+  const durations = { ...ANIMATION_DURATIONS };
+
+  (Object.keys(durations) as (keyof AnimationDurations)[]).forEach((name) => {
+    durations[name] =
+      isInstant || (reducedMotion && MOTION_ANIMATIONS.includes(name))
+        ? 0
+        : durations[name] / speed;
+  });
+
+  return {
+    durations,
+    floatNoiseFactor: reducedMotion ? 0 : FLOAT_NOISE_FACTOR,
+  };
+}
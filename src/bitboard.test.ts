@@ -0,0 +1,173 @@
+import { Cell } from './types';
+import {
+  bitboardToGrid,
+  findEmptyBitboardIndices,
+  getRowMove,
+  gridToBitboard,
+  hasBitboardLost,
+  moveBitboard,
+} from './bitboard';
+import {
+  findEmptyCellPositions,
+  getMergedScore,
+  hasLost,
+  makeEmptyCell,
+  makeMaskedCell,
+  makeObstacleCell,
+  resolveCellsInDirection,
+  resolveColumnOrRowInDirection,
+} from './gridUtils';
+import { initGameState } from './gameEngine';
+
+// merging only depends on which values are equal, so a distinct value for every cell of
+// the longest row tested is enough to cover every possible row
+const MAX_ROW_LENGTH = 5;
+const CELL_KINDS: (number | 'obstacle' | 'masked' | null)[] = [
+  null,
+  'obstacle',
+  'masked',
+  2,
+  4,
+  8,
+  16,
+  32,
+];
+
+let nextId = 0;
+
+const makeCell = (kind: (typeof CELL_KINDS)[number]): Cell => {
+  if (kind === 'obstacle') {
+    return makeObstacleCell();
+  }
+
+  if (kind === 'masked') {
+    return makeMaskedCell();
+  }
+
+  return {
+    ...makeEmptyCell(),
+    block: kind ? { id: `${nextId++}`, value: kind, isNew: false } : null,
+  };
+};
+
+// every combination of cell kinds for a row of the given length
+const buildRows = (length: number): Cell[][] =>
+  length === 0
+    ? [[]]
+    : buildRows(length - 1).flatMap((row) =>
+        CELL_KINDS.map((kind) => [...row, makeCell(kind)]),
+      );
+
+const getCellCodes = (cells: Cell[]) =>
+  Array.from(
+    gridToBitboard({ width: cells.length, height: 1, rows: [cells] }).cells,
+  );
+
+describe('bitboard', () => {
+  it('resolves every possible row the same way as the grid', () => {
+    // collected rather than expected one by one, which would be slow for this many rows
+    const mismatches: string[] = [];
+
+    for (let length = 1; length <= MAX_ROW_LENGTH; ++length) {
+      buildRows(length).forEach((cells) => {
+        const board = gridToBitboard({
+          width: length,
+          height: 1,
+          rows: [cells],
+        });
+
+        [-1, 1].forEach((direction) => {
+          const expected = resolveColumnOrRowInDirection(direction, cells);
+          const expectedPoints = getMergedScore({
+            width: length,
+            height: 1,
+            rows: [expected],
+          });
+          const { board: nextBoard, points } = moveBitboard(board, {
+            x: direction,
+            y: 0,
+          });
+
+          if (
+            Array.from(nextBoard.cells).join() !==
+              getCellCodes(expected).join() ||
+            points !== expectedPoints
+          ) {
+            mismatches.push(
+              `[${Array.from(board.cells)}] moving ${direction}: got ` +
+                `[${Array.from(nextBoard.cells)}] for ${points} points`,
+            );
+          }
+        });
+      });
+    }
+
+    expect(mismatches).toEqual([]);
+  });
+
+  it('resolves a whole grid the same way in every direction', () => {
+    const { grid } = initGameState({
+      layout: ['##.##', '#####', '#####', '##.##'],
+      seed: 'bitboard',
+    });
+    let current = grid;
+    let board = gridToBitboard(grid);
+
+    [
+      { x: 0, y: 1 },
+      { x: 1, y: 0 },
+      { x: 0, y: -1 },
+      { x: -1, y: 0 },
+    ].forEach((direction) => {
+      current = resolveCellsInDirection(direction, current);
+      board = moveBitboard(board, direction).board;
+
+      expect(board).toEqual(gridToBitboard(current));
+    });
+  });
+
+  it('resolves rows too long to pack into a single key', () => {
+    // 8 × 32^10 is 2^53, beyond which these two rows would round to the same number
+    const emptyRow = [8, ...Array(10).fill(0)];
+    const row = [8, ...Array(9).fill(0), 1];
+
+    expect(getRowMove(emptyRow).row).toEqual(emptyRow);
+    expect(getRowMove(row)).toEqual({
+      row: [8, 1, ...Array(9).fill(0)],
+      points: 0,
+    });
+  });
+
+  it('converts to and from a grid', () => {
+    const { grid } = initGameState({
+      size: 4,
+      seed: 'convert',
+      obstacleCount: 2,
+    });
+    const board = gridToBitboard(grid);
+    const converted = bitboardToGrid(board, grid);
+
+    expect(gridToBitboard(converted)).toEqual(board);
+    expect(findEmptyBitboardIndices(board)).toHaveLength(
+      findEmptyCellPositions(grid).length,
+    );
+    expect(
+      converted.rows.flat().filter((cell) => cell.isObstacle),
+    ).toHaveLength(2);
+  });
+
+  it('detects a lost board', () => {
+    const rows = [
+      [2, 4],
+      [4, 2],
+    ].map((row) => row.map(makeCell));
+    const grid = { width: 2, height: 2, rows };
+
+    expect(hasBitboardLost(gridToBitboard(grid))).toEqual(hasLost(grid));
+    expect(hasBitboardLost(gridToBitboard(grid))).toEqual(true);
+
+    rows[1][1] = makeCell(4);
+
+    expect(hasBitboardLost(gridToBitboard(grid))).toEqual(false);
+  });
+});
@@ -0,0 +1,244 @@
+import { Grid, Vector } from './types';
+import {
+  buildArray,
+  makeEmptyCell,
+  makeMaskedCell,
+  makeNewBlock,
+  makeObstacleCell,
+} from './gridUtils';
+import { DIRECTION_VECTORS } from './input';
+
+/**
+ * A packed grid for simulation, where a move is a handful of table lookups rather than
+ * cloning nested Cell objects. Each cell is the log2 of its block value, so 0 is empty,
+ * 1 is a 2, 11 is a 2048 and so on, which means every block value must be a power of 2.
+ * Cells are stored in row major order
+ */
+export type Bitboard = {
+  width: number;
+  height: number;
+  cells: Uint8Array;
+};
+
+// obstacles and holes behave identically when moving, so share a single code
+export const BLOCKED = 31;
+// each cell of a row fits in 5 bits, so a row of up to 10 cells packs into a safe integer
+const CELL_RANGE = 32;
+const MAX_PACKED_ROW_LENGTH = 10;
+// rows seen before are forgotten once a table holds this many, to bound its memory
+const MAX_ROW_MOVE_TABLE_SIZE = 2 ** 16;
+
+export function gridToBitboard(grid: Grid): Bitboard {
+  const cells = new Uint8Array(grid.width * grid.height);
+
+  grid.rows.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      const index = y * grid.width + x;
+
+      if (cell.isObstacle || cell.isMasked) {
+        cells[index] = BLOCKED;
+      } else if (cell.block) {
+        cells[index] = Math.log2(cell.block.value);
+      }
+    }),
+  );
+
+  return {
+    width: grid.width,
+    height: grid.height,
+    cells,
+  };
+}
+
+/**
+ * Bitboards don't know about block ids or the difference between obstacles and holes, so
+ * blocks get fresh ids and blocked cells become holes unless they were obstacles in the
+ * given template grid
+ */
+export function bitboardToGrid(board: Bitboard, template?: Grid): Grid {
+  const { width, height, cells } = board;
+
+  return {
+    width,
+    height,
+    rows: buildArray(height, (y) =>
+      buildArray(width, (x) => {
+        const code = cells[y * width + x];
+
+        if (code === BLOCKED) {
+          return template?.rows[y][x].isObstacle
+            ? makeObstacleCell()
+            : makeMaskedCell();
+        }
+
+        return {
+          ...makeEmptyCell(),
+          block: code ? { ...makeNewBlock(2 ** code), isNew: false } : null,
+        };
+      }),
+    ),
+  };
+}
+
+type RowMove = {
+  row: number[];
+  points: number;
+};
+
+// resolves a row towards index 0, with blocked cells splitting it into segments
+function resolveRow(row: number[]): RowMove {
+  const result: number[] = [];
+  let points = 0;
+  let segmentStart = 0;
+
+  const resolveSegment = (end: number) => {
+    let lastCode = 0;
+
+    for (let i = segmentStart; i < end; ++i) {
+      const code = row[i];
+
+      if (!code) {
+        continue;
+      }
+
+      if (code === lastCode) {
+        result[result.length - 1] = code + 1;
+        points += 2 ** (code + 1);
+        // a merged block can't merge again in the same move
+        lastCode = 0;
+      } else {
+        result.push(code);
+        lastCode = code;
+      }
+    }
+
+    while (result.length < end) {
+      result.push(0);
+    }
+  };
+
+  row.forEach((code, index) => {
+    if (code === BLOCKED) {
+      resolveSegment(index);
+      result.push(BLOCKED);
+      segmentStart = index + 1;
+    }
+  });
+  resolveSegment(row.length);
+
+  return { row: result, points };
+}
+
+const packRow = (row: number[]): number =>
+  row.reduce((packed, code) => packed * CELL_RANGE + code, 0);
+
+// One lookup table per row length, filled in as rows are first seen rather than up front,
+// as every possible row of 10 cells would never fit in memory
+const ROW_MOVE_TABLES = new Map<number, Map<number, RowMove>>();
+
+export function getRowMove(row: number[]): RowMove {
+  // longer rows don't pack into a unique key, so are resolved every time instead
+  if (row.length > MAX_PACKED_ROW_LENGTH) {
+    return resolveRow(row);
+  }
+
+  let table = ROW_MOVE_TABLES.get(row.length);
+
+  if (!table) {
+    table = new Map();
+    ROW_MOVE_TABLES.set(row.length, table);
+  }
+
+  const key = packRow(row);
+  let move = table.get(key);
+
+  if (!move) {
+    if (table.size >= MAX_ROW_MOVE_TABLE_SIZE) {
+      table.clear();
+    }
+
+    move = resolveRow(row);
+    table.set(key, move);
+  }
+
+  return move;
+}
+
+/**
+ * The indices of each line in the order blocks move along it, so that every direction can
+ * be resolved by the same towards index 0 row move
+ */
+function getLineIndices(
+  { width, height }: Bitboard,
+  direction: Vector,
+): number[][] {
+  if (direction.x !== 0 && direction.y !== 0) {
+    throw Error('Either direction.x or direction.y must be 0');
+  }
+
+  if (direction.x !== 0) {
+    return buildArray(height, (y) => {
+      const line = buildArray(width, (x) => y * width + x);
+
+      return direction.x === 1 ? line.reverse() : line;
+    });
+  }
+
+  return buildArray(width, (x) => {
+    const line = buildArray(height, (y) => y * width + x);
+
+    return direction.y === 1 ? line.reverse() : line;
+  });
+}
+
+export function moveBitboard(
+  board: Bitboard,
+  direction: Vector,
+): {
+  board: Bitboard;
+  points: number;
+  hasMoved: boolean;
+} {
+  const cells = new Uint8Array(board.cells);
+  let points = 0;
+  let hasMoved = false;
+
+  getLineIndices(board, direction).forEach((indices) => {
+    const move = getRowMove(indices.map((index) => board.cells[index]));
+
+    points += move.points;
+    move.row.forEach((code, i) => {
+      if (cells[indices[i]] !== code) {
+        cells[indices[i]] = code;
+        hasMoved = true;
+      }
+    });
+  });
+
+  return {
+    board: {
+      ...board,
+      cells,
+    },
+    points,
+    hasMoved,
+  };
+}
+
+export function findEmptyBitboardIndices({ cells }: Bitboard): number[] {
+  const result: number[] = [];
+
+  cells.forEach((code, index) => {
+    if (code === 0) {
+      result.push(index);
+    }
+  });
+
+  return result;
+}
+
+export function hasBitboardLost(board: Bitboard): boolean {
+  return !Object.values(DIRECTION_VECTORS).some(
+    (direction) => moveBitboard(board, direction).hasMoved,
+  );
+}
@@ -0,0 +1,37 @@
+import { BoardLayout } from './types';
+
+export const makeRectangleLayout = (
+  width: number,
+  height = width,
+): BoardLayout => new Array(height).fill('#'.repeat(width));
+
+export type BoardLayoutPresetName = 'cross' | 'donut' | 'lShape';
+
+// prettier-ignore
+export const BOARD_LAYOUT_PRESETS: Record<BoardLayoutPresetName, BoardLayout> =
+  {
+    cross: [
+      '..##..',
+      '..##..',
+      '######',
+      '######',
+      '..##..',
+      '..##..',
+    ],
+    donut: [
+      '######',
+      '######',
+      '##..##',
+      '##..##',
+      '######',
+      '######',
+    ],
+    lShape: [
+      '###...',
+      '###...',
+      '###...',
+      '######',
+      '######',
+      '######',
+    ],
+  };
@@ -1,8 +1,23 @@
 export const vertexShader = `
   #define LAMBERT
   varying vec3 vViewPosition;
-  uniform vec3 centre;
   uniform float time;
+  uniform float noiseFactor;
+
+  // instanced boxes carry everything that differs between boxes as attributes, rather
+  // than each box having its own material
+  #ifdef USE_INSTANCED_BOX
+    attribute vec3 instanceOffset;
+    attribute vec2 instanceScale;
+    attribute vec2 instanceFrameOffset;
+    attribute vec3 instanceBackground;
+    attribute vec3 instanceFontColor;
+    uniform vec2 frameSize;
+    varying vec3 vBackground;
+    varying vec3 vFontColor;
+  #else
+    uniform vec3 centre;
+  #endif
 
   //
   // Description : Array and textureless GLSL 2D simplex noise function.
@@ -92,6 +107,14 @@ export const vertexShader = `
 
   void main() {
     #include <uv_vertex>
+
+    #ifdef USE_INSTANCED_BOX
+      // each face of the geometry covers the whole texture, which is narrowed to the frame
+      vUv = instanceFrameOffset + uv * frameSize;
+      vBackground = instanceBackground;
+      vFontColor = instanceFontColor;
+      vec3 centre = instanceOffset;
+    #endif
     #include <uv2_vertex>
     #include <color_vertex>
     #include <morphcolor_vertex>
@@ -107,7 +130,6 @@ export const vertexShader = `
     float maxOffset = 0.08;
     float multiplier = 0.3;
     float timeMultiplier = 0.4;
-    float noiseFactor = 0.5;
 
     offset.x = snoise( vec2( centre.x * multiplier, time * timeMultiplier ) );
     offset.y = snoise( vec2( centre.y * multiplier, time * timeMultiplier ) );
@@ -115,6 +137,10 @@ export const vertexShader = `
 
     transformedPosition = position + ( offset * maxOffset * noiseFactor );
 
+    #ifdef USE_INSTANCED_BOX
+      transformedPosition = transformedPosition * vec3( instanceScale, 1.0 ) + instanceOffset;
+    #endif
+
     vec4 mvPosition = modelViewMatrix * vec4( vec3( transformedPosition ), 1.0 );
 
     gl_Position = projectionMatrix * mvPosition;
@@ -124,6 +150,9 @@ export const vertexShader = `
 
     vViewPosition = - mvPosition.xyz;
 
+    // the name the shadow map chunks read the position from
+    vec3 transformed = transformedPosition;
+
     #include <worldpos_vertex>
     #include <envmap_vertex>
     #include <shadowmap_vertex>
@@ -133,8 +162,15 @@ export const vertexShader = `
 
 export const fragmentShader = `
   #define LAMBERT
-  uniform vec3 diffuse;
-  uniform vec3 fontColor;
+  #ifdef USE_INSTANCED_BOX
+    varying vec3 vBackground;
+    varying vec3 vFontColor;
+    #define diffuse vBackground
+    #define fontColor vFontColor
+  #else
+    uniform vec3 diffuse;
+    uniform vec3 fontColor;
+  #endif
   uniform vec3 emissive;
   uniform float opacity;
 
@@ -0,0 +1,16 @@
+import { BOX_COLORS } from './consts';
+import sheetData from './2048-sheet.json';
+
+describe('consts', () => {
+  it('has a sprite sheet frame for every box color', () => {
+    Object.keys(BOX_COLORS).forEach((value) => {
+      expect(sheetData.frames).toHaveProperty(value);
+    });
+  });
+
+  it('supports every block value up to 131072', () => {
+    for (let value = 2; value <= 131072; value *= 2) {
+      expect(BOX_COLORS).toHaveProperty(`${value}`);
+    }
+  });
+});
@@ -1,6 +1,49 @@
+import { SpawnRules } from './types';
+
 export const BOX_SIZE = 1;
 export const BOX_GAP = 0.2;
 export const GRID_SIZE = 6;
+export const MIN_GRID_SIZE = 3;
+export const MAX_GRID_SIZE = 10;
+// vertical field of view of the camera, in degrees
+export const CAMERA_FOV = 50;
+// in pixels, for each face of the point light's shadow map
+export const SHADOW_MAP_SIZE = 1024;
+// boards with at least this many cells draw all of their boxes as a single InstancedMesh
+export const INSTANCED_BOXES_MIN_CELLS = 64;
+export const MAX_HISTORY_LENGTH = 32;
+export const DEFAULT_WIN_VALUE = 2048;
+// classic 2048, starting with two blocks and spawning a 4 one time in ten
+export const DEFAULT_SPAWN_RULES: SpawnRules = {
+  values: [
+    { value: 2, weight: 9 },
+    { value: 4, weight: 1 },
+  ],
+  spawnCount: 1,
+  startCount: 2,
+};
+export const SWIPE_MIN_DISTANCE = 30;
+export const SWIPE_MIN_VELOCITY = 0.2;
+export const GAMEPAD_DEADZONE = 0.5;
+export const OBSTACLE_COLOR = '#776e65';
+// how far the boxes drift about in boxShader
+export const FLOAT_NOISE_FACTOR = 0.5;
+// in seconds, for boxes to cross-fade to the colors of a new theme
+export const THEME_FADE_DURATION = 0.5;
+// how far, and for how many seconds, the board shakes when a move changes nothing
+export const BUMP_DISTANCE = 0.15;
+export const BUMP_DURATION = 0.3;
+// merges making a block of at least this value get bigger effects
+export const MERGE_MILESTONE_VALUE = 512;
+// in milliseconds, between each action when a replay is playing
+export const REPLAY_STEP_DELAY = 400;
+
+export const BEST_SCORE_STORAGE_KEY = 'react-three-2048:best-score';
+export const KEY_BINDINGS_STORAGE_KEY = 'react-three-2048:key-bindings';
+export const SAVED_GAME_STORAGE_KEY = 'react-three-2048:saved-game';
+export const SETTINGS_STORAGE_KEY = 'react-three-2048:settings';
+export const RECORDING_STORAGE_KEY = 'react-three-2048:recording';
+export const STATS_STORAGE_KEY = 'react-three-2048:stats';
 
 export const BOX_COLORS: Record<number, { color: string; background: string }> =
   {
@@ -52,4 +95,28 @@ export const BOX_COLORS: Record<number, { color: string; background: string }> =
       color: '#f9f6f2',
       background: '#edc22e',
     },
+    4096: {
+      color: '#f9f6f2',
+      background: '#b884ac',
+    },
+    8192: {
+      color: '#f9f6f2',
+      background: '#a061a0',
+    },
+    16384: {
+      color: '#f9f6f2',
+      background: '#8a4f9e',
+    },
+    32768: {
+      color: '#f9f6f2',
+      background: '#6a3f96',
+    },
+    65536: {
+      color: '#f9f6f2',
+      background: '#4b3a8a',
+    },
+    131072: {
+      color: '#f9f6f2',
+      background: '#3c3a32',
+    },
   };
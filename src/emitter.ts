@@ -0,0 +1,28 @@
+type Listener<T> = (payload: T) => void;
+
+export type Emitter<EventMap> = {
+  // returns an unsubscribe function, which makes it trivial to use as an effect cleanup
+  on: <K extends keyof EventMap>(
+    event: K,
+    listener: Listener<EventMap[K]>,
+  ) => () => void;
+  emit: <K extends keyof EventMap>(event: K, payload: EventMap[K]) => void;
+};
+
+export function createEmitter<EventMap>(): Emitter<EventMap> {
+  const listeners: { [K in keyof EventMap]?: Listener<EventMap[K]>[] } = {};
+
+  return {
+    on: (event, listener) => {
+      listeners[event] = [...(listeners[event] ?? []), listener];
+
+      return () => {
+        listeners[event] = listeners[event]?.filter((l) => l !== listener);
+      };
+    },
+    emit: (event, payload) => {
+      // copy so listeners can unsubscribe whilst being notified
+      listeners[event]?.slice().forEach((listener) => listener(payload));
+    },
+  };
+}
@@ -0,0 +1,432 @@
+import { createGameEngine, initGameState } from './gameEngine';
+import { deserializeGameState } from './serialization';
+import {
+  getGridLayout,
+  iterateCells,
+  makeEmptyGrid,
+  setBlockAt,
+} from './gridUtils';
+
+const UP = { x: 0, y: -1 };
+const DOWN = { x: 0, y: 1 };
+const LEFT = { x: -1, y: 0 };
+const RIGHT = { x: 1, y: 0 };
+const DIRECTIONS = [UP, RIGHT, DOWN, LEFT];
+// a single 2 to start and spawn, which makes block counts predictable
+const SINGLE_SPAWN_RULES = {
+  values: [{ value: 2, weight: 1 }],
+  spawnCount: 1,
+  startCount: 1,
+};
+
+const countBlocks = (engine: ReturnType<typeof createGameEngine>) => {
+  let count = 0;
+
+  iterateCells(engine.getState().grid, (cell) => {
+    if (cell.block) {
+      count += 1;
+    }
+  });
+
+  return count;
+};
+
+// cycles through every direction until the game is lost
+const playGame = (seed: string, size = 4) => {
+  const engine = createGameEngine({ size, seed });
+
+  for (let i = 0; engine.getState().phase === 'INPUT' && i < 10000; ++i) {
+    engine.move(DIRECTIONS[i % DIRECTIONS.length]);
+  }
+
+  return engine;
+};
+
+describe('gameEngine', () => {
+  it('starts a new game ready for input with two blocks', () => {
+    const engine = createGameEngine({ size: 4, seed: 'start' });
+
+    expect(engine.getState().phase).toEqual('INPUT');
+    expect(countBlocks(engine)).toEqual(2);
+  });
+
+  it('follows custom spawn rules', () => {
+    const engine = createGameEngine({
+      size: 4,
+      seed: 'spawn rules',
+      spawnRules: {
+        values: [{ value: 8, weight: 1 }],
+        spawnCount: 3,
+        startCount: 5,
+      },
+    });
+    const onSpawn = jest.fn();
+
+    engine.on('spawn', onSpawn);
+
+    expect(countBlocks(engine)).toEqual(5);
+
+    engine.move(LEFT);
+
+    expect(onSpawn).toHaveBeenCalledTimes(3);
+    iterateCells(engine.getState().grid, (cell) => {
+      expect([null, 8, 16]).toContain(cell.block?.value ?? null);
+    });
+  });
+
+  it('resolves a move and spawns a block', () => {
+    const engine = createGameEngine({
+      size: 4,
+      seed: 'move',
+      spawnRules: SINGLE_SPAWN_RULES,
+    });
+
+    expect(engine.move(LEFT)).toEqual(true);
+    expect(engine.getState().phase).toEqual('INPUT');
+    expect(engine.getState().moveCount).toEqual(1);
+    expect(countBlocks(engine)).toEqual(2);
+  });
+
+  it('ignores a move which changes nothing', () => {
+    const grid = makeEmptyGrid(4);
+
+    setBlockAt({ x: 0, y: 0 }, { id: 'a', value: 2, isNew: false }, grid);
+    setBlockAt({ x: 0, y: 1 }, { id: 'b', value: 4, isNew: false }, grid);
+
+    const engine = createGameEngine({
+      size: 4,
+      state: {
+        ...initGameState({ size: 4, seed: 'no-op' }),
+        phase: 'INPUT',
+        grid,
+      },
+    });
+    const state = engine.getState();
+    const onBump = jest.fn();
+    const onChange = jest.fn();
+
+    engine.on('bump', onBump);
+    engine.on('change', onChange);
+
+    expect(engine.move(LEFT)).toEqual(false);
+    expect(engine.move(UP)).toEqual(false);
+    expect(onBump).toHaveBeenCalledWith({ direction: UP });
+    expect(onChange).not.toHaveBeenCalled();
+    // still waiting for input, with nothing spawned or counted
+    expect(engine.getState()).toBe(state);
+    expect(engine.undo()).toEqual(false);
+
+    expect(engine.move(DOWN)).toEqual(true);
+    expect(engine.getState().moveCount).toEqual(state.moveCount + 1);
+    expect(countBlocks(engine)).toEqual(3);
+  });
+
+  it('only spawns a block after a move which changes the grid', () => {
+    const engine = createGameEngine({ size: 4, seed: 'every move counts' });
+    const moves: { hasMoved: boolean; spawned: number; counted: number }[] = [];
+    let spawnCount = 0;
+
+    engine.on('spawn', () => {
+      spawnCount += 1;
+    });
+
+    for (let i = 0; engine.getState().phase === 'INPUT' && i < 10000; ++i) {
+      const { moveCount } = engine.getState();
+
+      spawnCount = 0;
+      moves.push({
+        hasMoved: engine.move(DIRECTIONS[i % DIRECTIONS.length]),
+        spawned: spawnCount,
+        counted: engine.getState().moveCount - moveCount,
+      });
+    }
+
+    expect(engine.getState().phase).toEqual('GAME_OVER');
+    expect(moves.filter(({ hasMoved }) => !hasMoved).length).toBeGreaterThan(0);
+    moves.forEach(({ hasMoved, spawned, counted }) => {
+      expect([spawned, counted]).toEqual(hasMoved ? [1, 1] : [0, 0]);
+    });
+  });
+
+  it('plays the same full game for the same seed', () => {
+    const engine = playGame('full game');
+    const otherEngine = playGame('full game');
+
+    expect(engine.getState().phase).toEqual('GAME_OVER');
+    expect(engine.isLost()).toEqual(true);
+    expect(engine.serialize()).toEqual(otherEngine.serialize());
+    expect(engine.getState().grid).not.toEqual(
+      playGame('another game').getState().grid,
+    );
+  });
+
+  it('waits for animations when asked to', () => {
+    const engine = createGameEngine({
+      size: 4,
+      seed: 'animations',
+      spawnRules: SINGLE_SPAWN_RULES,
+      waitForAnimations: true,
+    });
+
+    expect(engine.getState().phase).toEqual('INIT');
+    expect(engine.move(LEFT)).toEqual(false);
+
+    engine.completeAnimations();
+    expect(engine.getState().phase).toEqual('INPUT');
+
+    engine.move(LEFT);
+    expect(engine.getState().phase).toEqual('ACTIVE');
+
+    engine.completeAnimations();
+    expect(engine.getState().phase).toEqual('SPAWN');
+    expect(countBlocks(engine)).toEqual(2);
+
+    engine.completeAnimations();
+    expect(engine.getState().phase).toEqual('INPUT');
+    expect(() => engine.completeAnimations()).toThrow();
+  });
+
+  it('emits events', () => {
+    const engine = createGameEngine({
+      size: 4,
+      seed: 'events',
+      spawnRules: SINGLE_SPAWN_RULES,
+    });
+    const onMove = jest.fn();
+    const onSpawn = jest.fn();
+    const onChange = jest.fn();
+
+    engine.on('move', onMove);
+    engine.on('spawn', onSpawn);
+    const unsubscribe = engine.on('change', onChange);
+
+    // the first direction which actually moves the starting block
+    const direction = DIRECTIONS.find((d) => engine.move(d));
+
+    expect(onMove).toHaveBeenCalledWith({
+      direction,
+      points: 0,
+      blockMoves: [expect.objectContaining({ mergedWith: null })],
+    });
+    expect(onSpawn).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalled();
+
+    onChange.mockClear();
+    unsubscribe();
+    engine.move(DOWN);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('emits an event for every merge', () => {
+    const grid = makeEmptyGrid(4);
+
+    setBlockAt({ x: 0, y: 0 }, { id: 'a', value: 4, isNew: false }, grid);
+    setBlockAt({ x: 1, y: 0 }, { id: 'b', value: 4, isNew: false }, grid);
+    setBlockAt({ x: 1, y: 1 }, { id: 'c', value: 2, isNew: false }, grid);
+    setBlockAt({ x: 3, y: 1 }, { id: 'd', value: 2, isNew: false }, grid);
+    setBlockAt({ x: 2, y: 2 }, { id: 'e', value: 2, isNew: false }, grid);
+
+    const engine = createGameEngine({
+      size: 4,
+      state: {
+        ...initGameState({ size: 4, seed: 'merges' }),
+        phase: 'INPUT',
+        grid,
+      },
+    });
+    const onMerge = jest.fn();
+
+    engine.on('merge', onMerge);
+    engine.move(LEFT);
+
+    expect(onMerge).toHaveBeenCalledTimes(2);
+    expect(onMerge).toHaveBeenCalledWith({
+      id: expect.stringMatching(/^[ab]$/),
+      value: 8,
+      position: { x: 0, y: 0 },
+    });
+    expect(onMerge).toHaveBeenCalledWith({
+      id: expect.stringMatching(/^[cd]$/),
+      value: 4,
+      position: { x: 0, y: 1 },
+    });
+  });
+
+  it('undoes and redoes moves', () => {
+    const engine = createGameEngine({ size: 4, seed: 'undo' });
+    const initialGrid = engine.getState().grid;
+
+    expect(engine.undo()).toEqual(false);
+
+    engine.move(RIGHT);
+    const movedGrid = engine.getState().grid;
+
+    expect(engine.undo()).toEqual(true);
+    expect(engine.getState().grid).toEqual(initialGrid);
+    expect(engine.redo()).toEqual(true);
+    expect(engine.getState().grid).toEqual(movedGrid);
+  });
+
+  it('resumes a serialized game', () => {
+    const engine = createGameEngine({ size: 4, seed: 'serialize' });
+
+    engine.move(RIGHT);
+    engine.move(DOWN);
+
+    const resumed = createGameEngine({
+      size: 4,
+      state: deserializeGameState(JSON.parse(engine.serialize())),
+    });
+
+    engine.move(LEFT);
+    resumed.move(LEFT);
+
+    expect(resumed.getState()).toEqual(engine.getState());
+    expect(() => deserializeGameState({})).toThrow();
+  });
+
+  it('keeps playing after winning', () => {
+    const grid = makeEmptyGrid(4);
+
+    setBlockAt({ x: 0, y: 0 }, { id: 'a', value: 1024, isNew: false }, grid);
+    setBlockAt({ x: 1, y: 0 }, { id: 'b', value: 1024, isNew: false }, grid);
+
+    const engine = createGameEngine({
+      size: 4,
+      state: {
+        ...initGameState({ size: 4, seed: 'won' }),
+        phase: 'INPUT',
+        grid,
+      },
+    });
+    const onWon = jest.fn();
+
+    engine.on('won', onWon);
+
+    expect(engine.keepPlaying()).toEqual(false);
+
+    engine.move(LEFT);
+
+    expect(engine.getState().phase).toEqual('WON');
+    expect(engine.isWon()).toEqual(true);
+    expect(onWon).toHaveBeenCalledTimes(1);
+    expect(engine.keepPlaying()).toEqual(true);
+    expect(engine.getState().phase).toEqual('INPUT');
+    expect(countBlocks(engine)).toEqual(2);
+
+    engine.move(RIGHT);
+
+    expect(engine.getState().phase).toEqual('INPUT');
+    expect(onWon).toHaveBeenCalledTimes(1);
+  });
+
+  it('wins at a configurable block value', () => {
+    const grid = makeEmptyGrid(4);
+
+    setBlockAt({ x: 0, y: 0 }, { id: 'a', value: 4, isNew: false }, grid);
+    setBlockAt({ x: 1, y: 0 }, { id: 'b', value: 4, isNew: false }, grid);
+
+    const engine = createGameEngine({
+      size: 4,
+      state: {
+        ...initGameState({ size: 4, seed: 'target', winValue: 8 }),
+        phase: 'INPUT',
+        grid,
+      },
+    });
+
+    expect(engine.isWon()).toEqual(false);
+
+    engine.move(LEFT);
+
+    expect(engine.getState().phase).toEqual('WON');
+  });
+
+  it('places obstacles at the start of every game', () => {
+    const engine = createGameEngine({
+      size: 4,
+      seed: 'obstacles',
+      obstacleCount: 3,
+    });
+    const countObstacles = () => {
+      let count = 0;
+
+      iterateCells(engine.getState().grid, (cell) => {
+        // obstacles never hold a block
+        if (cell.isObstacle && !cell.block) {
+          count += 1;
+        }
+      });
+
+      return count;
+    };
+
+    expect(countObstacles()).toEqual(3);
+
+    for (let i = 0; engine.getState().phase === 'INPUT' && i < 100; ++i) {
+      engine.move(DIRECTIONS[i % DIRECTIONS.length]);
+      expect(countObstacles()).toEqual(3);
+    }
+
+    engine.restart();
+
+    expect(countObstacles()).toEqual(3);
+    expect(countBlocks(engine)).toEqual(2);
+  });
+
+  it('restarts a seeded game with the same board but new block ids', () => {
+    const engine = createGameEngine({ size: 4, seed: 'restart' });
+    const getBlocks = () => {
+      const blocks: { id: string; value: number; x: number; y: number }[] = [];
+
+      iterateCells(engine.getState().grid, (cell, { x, y }) => {
+        if (cell.block) {
+          blocks.push({ id: cell.block.id, value: cell.block.value, x, y });
+        }
+      });
+
+      return blocks;
+    };
+    const firstGameBlocks = getBlocks();
+
+    engine.restart();
+
+    const secondGameBlocks = getBlocks();
+    const firstGameIds = firstGameBlocks.map(({ id }) => id);
+
+    expect(secondGameBlocks.map(({ id, ...block }) => block)).toEqual(
+      firstGameBlocks.map(({ id, ...block }) => block),
+    );
+    secondGameBlocks.forEach(({ id }) =>
+      expect(firstGameIds).not.toContain(id),
+    );
+  });
+
+  it('plays on a masked board layout', () => {
+    const layout = ['.##.', '####', '####', '.##.'];
+    const engine = createGameEngine({ layout, seed: 'layout' });
+    const hasBlockInHole = () => {
+      let result = false;
+
+      iterateCells(engine.getState().grid, (cell) => {
+        if (cell.isMasked && cell.block) {
+          result = true;
+        }
+      });
+
+      return result;
+    };
+
+    for (let i = 0; engine.getState().phase === 'INPUT' && i < 1000; ++i) {
+      engine.move(DIRECTIONS[i % DIRECTIONS.length]);
+      expect(hasBlockInHole()).toEqual(false);
+    }
+
+    expect(engine.getState().phase).toEqual('GAME_OVER');
+
+    engine.restart();
+
+    expect(getGridLayout(engine.getState().grid)).toEqual(layout);
+  });
+});
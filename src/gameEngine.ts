@@ -0,0 +1,646 @@
+import {
+  State,
+  Action,
+  SetPhaseAction,
+  SetDirectionAction,
+  AddNewBlockAction,
+  ClearTransientStateAction,
+  Block,
+  Vector,
+  Phase,
+  HistorySnapshot,
+  RestartAction,
+  SpawnRules,
+  RandomFn,
+  Grid,
+  BoardLayout,
+  BlockMove,
+} from './types';
+import {
+  makeGridFromLayout,
+  getGridLayout,
+  makeObstacleCell,
+  setBlockAt,
+  setCellAt,
+  getCellAt,
+  makeNewBlock,
+  resolveMove,
+  getBlockMoves,
+  cloneGrid,
+  updateCells,
+  hasLost,
+  hasWon,
+  hasNewCell,
+  findEmptyCellPositions,
+  getMergedScore,
+  prepareGridTransition,
+} from './gridUtils';
+import { arrayRandomItem, weightedRandomItem } from './utils';
+import { createRandomGenerator, hashSeed, makeRandomSeed } from './random';
+import { createEmitter, Emitter } from './emitter';
+import { makeRectangleLayout } from './boardLayouts';
+import { serializeGameState } from './serialization';
+import {
+  DEFAULT_SPAWN_RULES,
+  DEFAULT_WIN_VALUE,
+  MAX_HISTORY_LENGTH,
+} from './consts';
+
+type InitArgs = {
+  // a size × size square, when no layout is given
+  size?: number;
+  layout?: BoardLayout;
+  seed?: string;
+  bestScore?: number;
+  winValue?: number;
+  spawnRules?: SpawnRules;
+  obstacleCount?: number;
+  gameNumber?: number;
+};
+
+// A restarted seeded game spawns exactly the same blocks again. Their ids are prefixed with
+// the game number so that the renderer never mistakes them for the previous game's blocks
+const makeSpawnBlock = (
+  { values }: SpawnRules,
+  random: RandomFn,
+  gameNumber: number,
+): Block => {
+  const block = makeNewBlock(weightedRandomItem(values, random).value, random);
+
+  return { ...block, id: `${gameNumber}-${block.id}` };
+};
+
+// picks a random empty cell and block, or null if the grid is full
+const pickSpawn = (
+  grid: Grid,
+  spawnRules: SpawnRules,
+  random: RandomFn,
+  gameNumber: number,
+): { position: Vector; block: Block } | null => {
+  const emptyCellPositions = findEmptyCellPositions(grid);
+
+  if (!emptyCellPositions.length) {
+    return null;
+  }
+
+  return {
+    position: arrayRandomItem(emptyCellPositions, random),
+    block: makeSpawnBlock(spawnRules, random, gameNumber),
+  };
+};
+
+export function initGameState({
+  size,
+  layout,
+  seed = makeRandomSeed(),
+  bestScore = 0,
+  winValue = DEFAULT_WIN_VALUE,
+  spawnRules = DEFAULT_SPAWN_RULES,
+  obstacleCount = 0,
+  gameNumber = 0,
+}: InitArgs): State {
+  const boardLayout = layout ?? (size ? makeRectangleLayout(size) : null);
+
+  if (!boardLayout) {
+    throw Error('Either a board size or layout is required');
+  }
+
+  const grid = makeGridFromLayout(boardLayout);
+  const { random, getState } = createRandomGenerator(hashSeed(seed));
+
+  // obstacles are placed first, always leaving room for the starting blocks
+  for (
+    let i = 0;
+    i < obstacleCount &&
+    findEmptyCellPositions(grid).length > spawnRules.startCount;
+    ++i
+  ) {
+    setCellAt(
+      arrayRandomItem(findEmptyCellPositions(grid), random),
+      makeObstacleCell(),
+      grid,
+    );
+  }
+
+  for (let i = 0; i < spawnRules.startCount; ++i) {
+    const spawn = pickSpawn(grid, spawnRules, random, gameNumber);
+
+    if (spawn) {
+      setBlockAt(spawn.position, spawn.block, grid);
+    }
+  }
+
+  return {
+    phase: 'INIT',
+    grid,
+    score: 0,
+    bestScore,
+    moveCount: 0,
+    history: {
+      past: [],
+      future: [],
+    },
+    seed,
+    randomState: getState(),
+    winValue,
+    spawnRules,
+    obstacleCount,
+    keepPlaying: false,
+    gameNumber,
+  };
+}
+
+/**
+ * A resumed game starts from scratch visually, so every block is flagged as new and
+ * spawns in during the INIT phase
+ */
+export function prepareResumedGameState(state: State): State {
+  return {
+    ...state,
+    phase: 'INIT',
+    grid: prepareGridTransition(
+      makeGridFromLayout(getGridLayout(state.grid)),
+      state.grid,
+    ),
+  };
+}
+
+const makeHistorySnapshot = ({
+  grid,
+  score,
+  moveCount,
+  randomState,
+}: State): HistorySnapshot => ({
+  grid,
+  score,
+  moveCount,
+  randomState,
+});
+
+// history is only ever recorded and restored from the settled INPUT phase, so snapshots
+// never contain transient merged blocks and always include the last spawned block. The
+// PRNG state is restored too, so repeating an undone move spawns the same block again
+const restoreHistorySnapshot = (
+  state: State,
+  snapshot: HistorySnapshot,
+  past: HistorySnapshot[],
+  future: HistorySnapshot[],
+): State => ({
+  ...state,
+  phase: 'REVERT',
+  grid: prepareGridTransition(state.grid, snapshot.grid),
+  score: snapshot.score,
+  moveCount: snapshot.moveCount,
+  randomState: snapshot.randomState,
+  history: {
+    past,
+    future,
+  },
+});
+
+export function gameReducer(state: State, action: Action): State {
+  const { grid, history } = state;
+
+  switch (action.type) {
+    case 'SET_PHASE':
+      return {
+        ...state,
+        phase: (action as SetPhaseAction).phase,
+      };
+
+    case 'SET_MOVED_DIRECTION': {
+      const { grid: nextGrid, hasChanged } = resolveMove(
+        (action as SetDirectionAction).direction,
+        grid,
+      );
+
+      // a move which changes nothing isn't a move, so doesn't count or spawn a block
+      if (!hasChanged) {
+        return state;
+      }
+
+      const score = state.score + getMergedScore(nextGrid);
+
+      return {
+        ...state,
+        phase: 'ACTIVE',
+        grid: nextGrid,
+        score,
+        bestScore: Math.max(state.bestScore, score),
+        moveCount: state.moveCount + 1,
+        history: {
+          past: [...history.past, makeHistorySnapshot(state)].slice(
+            -MAX_HISTORY_LENGTH,
+          ),
+          future: [],
+        },
+      };
+    }
+
+    case 'ADD_NEW_BLOCK': {
+      const nextGrid = cloneGrid(grid);
+      const { block, position, randomState } = action as AddNewBlockAction;
+
+      // replace rather than mutate the cell, it may be shared with a history snapshot
+      return {
+        ...state,
+        grid: setCellAt(
+          position,
+          {
+            ...getCellAt(position, nextGrid),
+            block,
+          },
+          nextGrid,
+        ),
+        randomState,
+      };
+    }
+
+    case 'CLEAR_TRANSIENT_STATE': {
+      const nextGrid = cloneGrid(grid);
+
+      return {
+        ...state,
+        phase: (action as ClearTransientStateAction).nextPhase,
+        grid: updateCells(nextGrid, (cell) => {
+          const { block, mergedBlock } = cell;
+
+          if (!mergedBlock && !block?.isNew) {
+            return cell;
+          }
+
+          return {
+            ...cell,
+            // blocks shrinking away after a revert may have been left in an empty cell
+            block: block && {
+              ...block,
+              isNew: false,
+            },
+            mergedBlock: null,
+          };
+        }),
+      };
+    }
+
+    case 'UNDO': {
+      const snapshot = history.past[history.past.length - 1];
+
+      if (!snapshot) {
+        return state;
+      }
+
+      return restoreHistorySnapshot(
+        state,
+        snapshot,
+        history.past.slice(0, -1),
+        [makeHistorySnapshot(state), ...history.future],
+      );
+    }
+
+    case 'REDO': {
+      const [snapshot, ...future] = history.future;
+
+      if (!snapshot) {
+        return state;
+      }
+
+      return restoreHistorySnapshot(
+        state,
+        snapshot,
+        [...history.past, makeHistorySnapshot(state)],
+        future,
+      );
+    }
+
+    case 'KEEP_PLAYING':
+      return {
+        ...state,
+        phase: 'SPAWN',
+        keepPlaying: true,
+      };
+
+    case 'RESTART': {
+      return initGameState({
+        layout: getGridLayout(state.grid),
+        seed: (action as RestartAction).seed,
+        bestScore: state.bestScore,
+        winValue: state.winValue,
+        spawnRules: state.spawnRules,
+        obstacleCount: state.obstacleCount,
+        gameNumber: state.gameNumber + 1,
+      });
+    }
+  }
+}
+
+// phases which are waiting for the renderer to finish animating, and where they lead to
+const ANIMATION_COMPLETE_PHASE_MAP: Partial<Record<Phase, Phase>> = {
+  INIT: 'INPUT',
+  ACTIVE: 'TEST_WON',
+  REVERT: 'INPUT',
+  SPAWN: 'TEST_GAME_OVER',
+};
+
+export type GameEventMap = {
+  // fired after every state update
+  change: State;
+  // every action applied to state, in order
+  action: Action;
+  move: {
+    direction: Vector;
+    points: number;
+    blockMoves: BlockMove[];
+  };
+  // a move was attempted which wouldn't change anything, so the game is still waiting
+  bump: {
+    direction: Vector;
+  };
+  // fired for each pair of blocks merged by a move, straight after the move
+  merge: {
+    // the block which is kept, with its new value
+    id: string;
+    value: number;
+    position: Vector;
+  };
+  spawn: {
+    position: Vector;
+    block: Block;
+  };
+  won: State;
+  lost: State;
+};
+
+export type GameEngineOptions = {
+  // the board is a size × size square, unless a layout is given
+  size?: number;
+  layout?: BoardLayout;
+  // when set, every game (including restarts) is played with the same seeded board
+  seed?: string;
+  bestScore?: number;
+  // the block value which wins the game, defaults to 2048
+  winValue?: number;
+  // defaults to the classic 2048 rules
+  spawnRules?: SpawnRules;
+  // the number of obstacles placed at random at the start of each game, defaults to none
+  obstacleCount?: number;
+  // resume from a previously serialized state instead of starting a new game
+  state?: State;
+  // Without a renderer there is nothing to wait for, so by default every phase settles
+  // immediately. Renderers set this and call completeAnimations when they're done
+  waitForAnimations?: boolean;
+};
+
+export type GameEngine = {
+  getState: () => State;
+  // returns false if the move isn't allowed in the current phase or changes nothing
+  move: (direction: Vector) => boolean;
+  undo: () => boolean;
+  redo: () => boolean;
+  restart: () => void;
+  // continue the current game from the WON phase
+  keepPlaying: () => boolean;
+  completeAnimations: () => void;
+  isWon: () => boolean;
+  isLost: () => boolean;
+  serialize: () => string;
+  on: Emitter<GameEventMap>['on'];
+};
+
+/**
+ * All of the game rules, independent of React or any renderer, so a game can be run in
+ * Node, a worker or a test. The engine is a small phase state machine around the reducer,
+ * stepping through the automatic phases (TEST_WON, SPAWN, TEST_GAME_OVER) by itself and
+ * stopping at phases which need either user input or the renderer to finish animating
+ */
+export function createGameEngine({
+  size,
+  layout,
+  seed,
+  bestScore,
+  winValue,
+  spawnRules,
+  obstacleCount,
+  state: initialState,
+  waitForAnimations = false,
+}: GameEngineOptions): GameEngine {
+  const emitter = createEmitter<GameEventMap>();
+  let state =
+    initialState ??
+    initGameState({
+      size,
+      layout,
+      seed,
+      bestScore,
+      winValue,
+      spawnRules,
+      obstacleCount,
+    });
+
+  const dispatch = (action: Action) => {
+    const nextState = gameReducer(state, action);
+
+    if (nextState === state) {
+      return;
+    }
+
+    state = nextState;
+    emitter.emit('action', action);
+    emitter.emit('change', state);
+  };
+
+  const setPhase = (phase: Phase) => {
+    dispatch({
+      type: 'SET_PHASE',
+      phase,
+    });
+
+    if (phase === 'WON') {
+      emitter.emit('won', state);
+    } else if (phase === 'GAME_OVER') {
+      emitter.emit('lost', state);
+    }
+  };
+
+  // only ever called in the SPAWN phase, adds blocks to random empty cells and returns
+  // false if the grid is full
+  const spawn = () => {
+    let hasSpawned = false;
+
+    for (let i = 0; i < state.spawnRules.spawnCount; ++i) {
+      const { random, getState } = createRandomGenerator(state.randomState);
+      const spawned = pickSpawn(
+        state.grid,
+        state.spawnRules,
+        random,
+        state.gameNumber,
+      );
+
+      if (!spawned) {
+        break;
+      }
+
+      dispatch({
+        type: 'ADD_NEW_BLOCK',
+        ...spawned,
+        randomState: getState(),
+      });
+      emitter.emit('spawn', spawned);
+      hasSpawned = true;
+    }
+
+    return hasSpawned;
+  };
+
+  const settle = (nextPhase: Phase) => {
+    dispatch({
+      type: 'CLEAR_TRANSIENT_STATE',
+      nextPhase,
+    });
+  };
+
+  const advance = () => {
+    switch (state.phase) {
+      case 'TEST_WON':
+        setPhase(
+          !state.keepPlaying && hasWon(state.grid, state.winValue)
+            ? 'WON'
+            : 'SPAWN',
+        );
+        break;
+
+      case 'SPAWN':
+        // nothing will animate if there was no room to spawn a block
+        if (!hasNewCell(state.grid) && !spawn()) {
+          settle('TEST_GAME_OVER');
+        } else if (!waitForAnimations) {
+          settle('TEST_GAME_OVER');
+        } else {
+          return;
+        }
+        break;
+
+      case 'TEST_GAME_OVER':
+        if (hasLost(state.grid)) {
+          setPhase('GAME_OVER');
+        } else {
+          settle('INPUT');
+        }
+        break;
+
+      case 'INIT':
+      case 'ACTIVE':
+      case 'REVERT':
+        if (!waitForAnimations) {
+          completeAnimations();
+        }
+        return;
+
+      default:
+        // waiting for user input
+        return;
+    }
+
+    advance();
+  };
+
+  const completeAnimations = () => {
+    const nextPhase = ANIMATION_COMPLETE_PHASE_MAP[state.phase];
+
+    if (!nextPhase) {
+      throw Error(
+        `Animation complete fired during unexpected phase ${state.phase}`,
+      );
+    }
+
+    settle(nextPhase);
+    advance();
+  };
+
+  const move = (direction: Vector) => {
+    if (state.phase !== 'INPUT') {
+      return false;
+    }
+
+    const previousState = state;
+
+    dispatch({
+      type: 'SET_MOVED_DIRECTION',
+      direction,
+    });
+
+    if (state === previousState) {
+      emitter.emit('bump', { direction });
+      return false;
+    }
+
+    const blockMoves = getBlockMoves(previousState.grid, state.grid);
+
+    emitter.emit('move', {
+      direction,
+      points: state.score - previousState.score,
+      blockMoves,
+    });
+    blockMoves.forEach(({ id, to, mergedWith, isMerged }) => {
+      if (mergedWith && !isMerged) {
+        emitter.emit('merge', {
+          id,
+          value: (getCellAt(to, state.grid).block as Block).value,
+          position: to,
+        });
+      }
+    });
+    advance();
+
+    return true;
+  };
+
+  const revert = (type: 'UNDO' | 'REDO') => {
+    const { history } = state;
+    const snapshots = type === 'UNDO' ? history.past : history.future;
+
+    if (state.phase !== 'INPUT' || !snapshots.length) {
+      return false;
+    }
+
+    dispatch({ type });
+    advance();
+
+    return true;
+  };
+
+  const keepPlaying = () => {
+    if (state.phase !== 'WON') {
+      return false;
+    }
+
+    // the move which won the game hasn't spawned a block yet
+    dispatch({ type: 'KEEP_PLAYING' });
+    advance();
+
+    return true;
+  };
+
+  const restart = () => {
+    dispatch({
+      type: 'RESTART',
+      seed,
+    });
+    advance();
+  };
+
+  advance();
+
+  return {
+    getState: () => state,
+    move,
+    undo: () => revert('UNDO'),
+    redo: () => revert('REDO'),
+    restart,
+    keepPlaying,
+    completeAnimations,
+    isWon: () => hasWon(state.grid, state.winValue),
+    isLost: () => hasLost(state.grid),
+    serialize: () => JSON.stringify(serializeGameState(state)),
+    on: emitter.on,
+  };
+}
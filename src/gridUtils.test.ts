@@ -1,15 +1,26 @@
 import { Cell, Grid } from './types';
 import {
+  findEmptyCellPositions,
+  getCameraDistance,
   getColumnAt,
+  getMergedScore,
+  getGridLayout,
   getRowAt,
+  gridToScreenPosition,
+  hasLost,
+  makeGridFromLayout,
   makeEmptyCell,
+  prepareGridTransition,
   resolveCellsInDirection,
+  resolveMove,
   setColumnAt,
   setRowAt,
 } from './gridUtils';
 
-// convenience for providing test cases
-type CellValue = number | null;
+// convenience for providing test cases, O is an obstacle and M is a masked out hole
+const O = 'O' as const;
+const M = 'M' as const;
+type CellValue = number | null | typeof O | typeof M;
 type CellValueRows = CellValue[][];
 
 function makeCellWithBlock(id: string, value: number): Cell {
@@ -20,32 +31,43 @@ function makeCellWithBlock(id: string, value: number): Cell {
       isNew: false,
     },
     mergedBlock: null,
+    isObstacle: false,
+    isMasked: false,
   };
 }
 
 function cellValueRowsToGrid(cellValueRows: CellValueRows): Grid {
   let id = 1;
-  const size = cellValueRows.length;
 
   return {
-    size,
+    width: cellValueRows[0].length,
+    height: cellValueRows.length,
     rows: cellValueRows.map((row) =>
       row.map((value) => ({
-        block: value
-          ? {
-              id: `${id++}`,
-              value,
-              isNew: false,
-            }
-          : null,
+        block:
+          typeof value === 'number'
+            ? {
+                id: `${id++}`,
+                value,
+                isNew: false,
+              }
+            : null,
         mergedBlock: null,
+        isObstacle: value === O,
+        isMasked: value === M,
       })),
     ),
   };
 }
 
 function gridCellsToValues(cells: Cell[]): CellValue[] {
-  return cells.map((cell) => cell.block?.value ?? null);
+  return cells.map((cell) => {
+    if (cell.isObstacle) {
+      return O;
+    }
+
+    return cell.isMasked ? M : cell.block?.value ?? null;
+  });
 }
 
 function gridToCellValueRows(grid: Grid): CellValueRows {
@@ -91,6 +113,33 @@ const mockGridMoveLeft = [
   [_, _, _, _, _, _],
 ];
 
+const mockObstacleGrid = [
+  [2, O, 2, 2, _, _],
+  [_, _, _, _, _, _],
+  [_, _, O, _, _, _],
+  [_, _, 2, _, _, _],
+  [4, 4, _, 4, O, 4],
+  [_, _, _, _, _, _],
+];
+
+const mockObstacleGridMoveLeft = [
+  [2, O, 4, _, _, _],
+  [_, _, _, _, _, _],
+  [_, _, O, _, _, _],
+  [2, _, _, _, _, _],
+  [8, 4, _, _, O, 4],
+  [_, _, _, _, _, _],
+];
+
+const mockObstacleGridMoveUp = [
+  [2, O, 2, 2, _, 4],
+  [4, 4, _, 4, _, _],
+  [_, _, O, _, _, _],
+  [_, _, 2, _, _, _],
+  [_, _, _, _, O, _],
+  [_, _, _, _, _, _],
+];
+
 const mockGridMoveRight = [
   [_, _, _, _, _, 4],
   [_, _, _, _, _, 2],
@@ -132,10 +181,14 @@ describe('use2048', () => {
           isNew: false,
         },
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: null,
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: {
@@ -144,14 +197,20 @@ describe('use2048', () => {
           isNew: false,
         },
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: null,
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: null,
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: {
@@ -160,6 +219,8 @@ describe('use2048', () => {
           isNew: false,
         },
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
     ]);
 
@@ -194,10 +255,14 @@ describe('use2048', () => {
           isNew: false,
         },
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: null,
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: {
@@ -206,14 +271,20 @@ describe('use2048', () => {
           isNew: false,
         },
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: null,
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: null,
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
       {
         block: {
@@ -222,6 +293,8 @@ describe('use2048', () => {
           isNew: false,
         },
         mergedBlock: null,
+        isObstacle: false,
+        isMasked: false,
       },
     ]);
 
@@ -282,4 +355,196 @@ describe('use2048', () => {
 
     expect(gridToCellValueRows(result)).toEqual(mockGridMoveRight);
   });
+
+  it('describes how each block moved and merged', () => {
+    const result = resolveMove(
+      { x: 1, y: 0 },
+      cellValueRowsToGrid([
+        [2, 2, _],
+        [_, _, 4],
+      ]),
+    );
+
+    expect(result.hasChanged).toEqual(true);
+    expect(gridToCellValueRows(result.grid)).toEqual([
+      [_, _, 4],
+      [_, _, 4],
+    ]);
+    expect(result.blockMoves).toEqual([
+      {
+        id: '1',
+        from: { x: 0, y: 0 },
+        to: { x: 2, y: 0 },
+        mergedWith: '2',
+        isMerged: false,
+      },
+      {
+        id: '2',
+        from: { x: 1, y: 0 },
+        to: { x: 2, y: 0 },
+        mergedWith: '1',
+        isMerged: true,
+      },
+      {
+        id: '3',
+        from: { x: 2, y: 1 },
+        to: { x: 2, y: 1 },
+        mergedWith: null,
+        isMerged: false,
+      },
+    ]);
+  });
+
+  it('reports a move which changes nothing', () => {
+    const grid = cellValueRowsToGrid([
+      [2, 4, O],
+      [8, _, _],
+    ]);
+
+    expect(resolveMove({ x: -1, y: 0 }, grid).hasChanged).toEqual(false);
+    expect(resolveMove({ x: 0, y: -1 }, grid).hasChanged).toEqual(false);
+    expect(resolveMove({ x: 1, y: 0 }, grid).hasChanged).toEqual(true);
+  });
+
+  it('scores the sum of merged block values', () => {
+    const grid = cellValueRowsToGrid(mockGrid);
+
+    expect(getMergedScore(grid)).toEqual(0);
+    expect(
+      getMergedScore(resolveCellsInDirection({ x: 0, y: -1 }, grid)),
+    ).toEqual(4);
+    expect(
+      getMergedScore(resolveCellsInDirection({ x: 1, y: 0 }, grid)),
+    ).toEqual(4);
+  });
+
+  it('prepares a transition between history snapshots', () => {
+    const grid = cellValueRowsToGrid(mockGrid);
+    const nextGrid = resolveCellsInDirection({ x: 1, y: 0 }, grid);
+    // block 2 is merged into block 1 when moving right
+    const result = prepareGridTransition(nextGrid, grid);
+
+    expect(gridToCellValueRows(result)).toEqual(mockGrid);
+    expect(result.rows[0][5].block).toEqual({
+      id: '2',
+      value: 2,
+      isNew: true,
+    });
+    expect(result.rows[0][2].block?.isNew).toEqual(false);
+    expect(result.rows[0][5].mergedBlock).toEqual(null);
+
+    const reverseResult = prepareGridTransition(grid, nextGrid);
+
+    expect(gridToCellValueRows(reverseResult)).toEqual(mockGridMoveRight);
+    expect(reverseResult.rows[0][5].mergedBlock?.id).toEqual('2');
+  });
+
+  it('resolves a grid with obstacles in separate segments', () => {
+    const grid = cellValueRowsToGrid(mockObstacleGrid);
+
+    expect(
+      gridToCellValueRows(resolveCellsInDirection({ x: -1, y: 0 }, grid)),
+    ).toEqual(mockObstacleGridMoveLeft);
+    expect(
+      gridToCellValueRows(resolveCellsInDirection({ x: 0, y: -1 }, grid)),
+    ).toEqual(mockObstacleGridMoveUp);
+  });
+
+  it('never treats obstacles as empty cells', () => {
+    const grid = cellValueRowsToGrid([
+      [2, O],
+      [O, 4],
+    ]);
+
+    expect(findEmptyCellPositions(grid)).toEqual([]);
+    expect(hasLost(grid)).toEqual(true);
+    // the 2s can't merge through the obstacle between them
+    expect(
+      hasLost(
+        cellValueRowsToGrid([
+          [2, O, 2],
+          [4, 8, 4],
+          [8, 4, 8],
+        ]),
+      ),
+    ).toEqual(true);
+    expect(
+      hasLost(
+        cellValueRowsToGrid([
+          [2, 2, O],
+          [4, 8, 4],
+          [8, 4, 8],
+        ]),
+      ),
+    ).toEqual(false);
+  });
+
+  it('resolves a rectangular grid with masked out holes', () => {
+    const grid = cellValueRowsToGrid([
+      [2, 2, M, 2],
+      [M, 4, 2, 2],
+      [2, M, M, 4],
+    ]);
+
+    expect(
+      gridToCellValueRows(resolveCellsInDirection({ x: 1, y: 0 }, grid)),
+    ).toEqual([
+      [_, 4, M, 2],
+      [M, _, 4, 4],
+      [2, M, M, 4],
+    ]);
+    expect(
+      gridToCellValueRows(resolveCellsInDirection({ x: 0, y: 1 }, grid)),
+    ).toEqual([
+      [2, 2, M, _],
+      [M, 4, 2, 4],
+      [2, M, M, 4],
+    ]);
+  });
+
+  it('never treats masked out holes as empty cells', () => {
+    const grid = cellValueRowsToGrid([
+      [2, M, 2],
+      [4, 8, 4],
+    ]);
+
+    expect(findEmptyCellPositions(grid)).toEqual([]);
+    expect(hasLost(grid)).toEqual(true);
+  });
+
+  it('makes a grid from a board layout', () => {
+    const layout = ['##.', '###'];
+    const grid = makeGridFromLayout(layout);
+
+    expect(gridToCellValueRows(grid)).toEqual([
+      [_, _, M],
+      [_, _, _],
+    ]);
+    expect(getGridLayout(grid)).toEqual(layout);
+    expect(() => makeGridFromLayout(['##', '#'])).toThrow();
+    expect(() => makeGridFromLayout(['#x'])).toThrow();
+    expect(() => makeGridFromLayout([])).toThrow();
+  });
+
+  it('centres a rectangular grid on screen', () => {
+    const grid = makeGridFromLayout(['###', '###']);
+    const topLeft = gridToScreenPosition(grid, { x: 0, y: 0 });
+    const bottomRight = gridToScreenPosition(grid, { x: 2, y: 1 });
+
+    expect(topLeft.x + bottomRight.x).toBeCloseTo(0);
+    expect(topLeft.y + bottomRight.y).toBeCloseTo(0);
+    expect(topLeft.y).toBeGreaterThan(bottomRight.y);
+  });
+
+  it('moves the camera further away to fit larger grids', () => {
+    const distance = getCameraDistance({ width: 6, height: 6 }, 50);
+
+    expect(distance).toBeCloseTo(9.65, 1);
+    expect(getCameraDistance({ width: 10, height: 3 }, 50)).toBeGreaterThan(
+      distance,
+    );
+    expect(getCameraDistance({ width: 3, height: 3 }, 50)).toBeLessThan(
+      distance,
+    );
+  });
 });
@@ -1,8 +1,20 @@
 import { v4 as uuidv4 } from 'uuid';
 
 import { BOX_SIZE, BOX_GAP } from './consts';
-import { Cell, Block, Grid, Vector, GridRow, GridColumn } from './types';
-import { Vector3 } from 'three';
+import {
+  Cell,
+  Block,
+  Grid,
+  Vector,
+  GridRow,
+  GridColumn,
+  RandomFn,
+  BoardLayout,
+  BlockMove,
+  MoveResult,
+} from './types';
+import { randomBytes } from './random';
+import { MathUtils, Vector3 } from 'three';
 
 export const buildNullArray = (size: number): null[] =>
   new Array(size).fill(null);
@@ -15,21 +27,75 @@ export const buildArray = <T>(
 export const makeEmptyCell = (): Cell => ({
   block: null,
   mergedBlock: null,
+  isObstacle: false,
+  isMasked: false,
 });
 
-export const makeNewBlock = (value = 2): Block => ({
-  id: uuidv4(),
+export const makeObstacleCell = (): Cell => ({
+  ...makeEmptyCell(),
+  isObstacle: true,
+});
+
+export const makeMaskedCell = (): Cell => ({
+  ...makeEmptyCell(),
+  isMasked: true,
+});
+
+// blocks can't move into, through or merge across obstacles or holes
+export const isBlockingCell = (cell: Cell): boolean =>
+  cell.isObstacle || cell.isMasked;
+
+// ids are built from the given PRNG so seeded games always produce the same ids
+export const makeNewBlock = (
+  value = 2,
+  random: RandomFn = Math.random,
+): Block => ({
+  id: uuidv4({ random: randomBytes(16, random) }),
   value,
   isNew: true,
 });
 
-export function makeEmptyGrid(size: number): Grid {
+export function makeEmptyGrid(width: number, height = width): Grid {
   return {
-    size,
-    rows: buildArray(size, () => buildArray(size, makeEmptyCell)),
+    width,
+    height,
+    rows: buildArray(height, () => buildArray(width, makeEmptyCell)),
   };
 }
 
+export function makeGridFromLayout(layout: BoardLayout): Grid {
+  const width = layout[0]?.length ?? 0;
+
+  if (!width || layout.some((row) => row.length !== width)) {
+    throw Error('Board layout rows must all be the same, non-zero, length');
+  }
+
+  return {
+    width,
+    height: layout.length,
+    rows: layout.map((row) =>
+      row.split('').map((char) => {
+        if (char === '#') {
+          return makeEmptyCell();
+        }
+
+        if (char === '.') {
+          return makeMaskedCell();
+        }
+
+        throw Error(`Unexpected character '${char}' in board layout`);
+      }),
+    ),
+  };
+}
+
+// the layout of the board a grid was made from, without any blocks or obstacles
+export function getGridLayout(grid: Grid): BoardLayout {
+  return grid.rows.map((row) =>
+    row.map((cell) => (cell.isMasked ? '.' : '#')).join(''),
+  );
+}
+
 /**
  * For state immutability, we clone the grid on each action before running mutations,
  * this also allows us to keep before and after state in memory to determine transitions
@@ -37,7 +103,8 @@ export function makeEmptyGrid(size: number): Grid {
  */
 export function cloneGrid(grid: Grid): Grid {
   return {
-    size: grid.size,
+    width: grid.width,
+    height: grid.height,
     rows: grid.rows.map((row) => row.slice()),
   };
 }
@@ -96,8 +163,8 @@ type CellIterator = (cell: Cell, arg: Vector, grid: Grid) => boolean | void;
 export function iterateCells(grid: Grid, iterator: CellIterator) {
   // easier to read/use old skool for loops on multidimensional array than nested maps, reduce, etc.
   // row major order
-  for (let x = 0; x < grid.size; ++x) {
-    for (let y = 0; y < grid.size; ++y) {
+  for (let x = 0; x < grid.width; ++x) {
+    for (let y = 0; y < grid.height; ++y) {
       const position = { x, y };
       const res = iterator(getCellAt(position, grid), position, grid);
 
@@ -124,7 +191,7 @@ export function findEmptyCellPositions(grid: Grid): Vector[] {
   const result: Vector[] = [];
 
   iterateCells(grid, (cell, position) => {
-    if (cell.block === null) {
+    if (cell.block === null && !isBlockingCell(cell)) {
       result.push(position);
     }
   });
@@ -211,21 +278,29 @@ export function findBlockPairs(
   };
 }
 
-// returns shallow cloned cells array, which can be set back onto grid via mutation
-export function resolveColumnOrRowInDirection(
-  direction: number,
-  cells: GridColumn | GridRow,
-): GridColumn | GridRow {
+// obstacles and holes split a column or row into segments, blocks can't move or merge
+// between them
+export function splitIntoSegments(cells: Cell[]): Cell[][] {
+  const segments: Cell[][] = [[]];
+
+  cells.forEach((cell) => {
+    if (isBlockingCell(cell)) {
+      segments.push([]);
+    } else {
+      segments[segments.length - 1].push(cell);
+    }
+  });
+
+  return segments;
+}
+
+function resolveSegmentInDirection(direction: number, cells: Cell[]): Cell[] {
   const blocksWithValues = pluckBlocks(cells).filter(
     (block) => block !== null,
   ) as Block[];
 
-  // In order to implement obstacles, blocksWithValues would just need to be split into
-  // separate arrays based on obstacle position. findBlockPairs would then be run against
-  // each array, before joining them back together with the original obstacles
-
   if (!blocksWithValues.length) {
-    // bail early if this whole column or row is empty
+    // bail early if this whole segment is empty
     return cells;
   }
 
@@ -264,6 +339,28 @@ export function resolveColumnOrRowInDirection(
   });
 }
 
+// returns shallow cloned cells array, which can be set back onto grid via mutation
+export function resolveColumnOrRowInDirection(
+  direction: number,
+  cells: GridColumn | GridRow,
+): GridColumn | GridRow {
+  const resolvedSegments = splitIntoSegments(cells).map((segment) =>
+    resolveSegmentInDirection(direction, segment),
+  );
+
+  let segmentIndex = 0;
+
+  // join the segments back together with the original obstacles and holes in between
+  return cells.map((cell) => {
+    if (isBlockingCell(cell)) {
+      segmentIndex += 1;
+      return cell;
+    }
+
+    return resolvedSegments[segmentIndex].shift() as Cell;
+  });
+}
+
 export function resolveCellsInDirection(direction: Vector, grid: Grid) {
   // maybe I don't need to clone but can rely on sub-properties changing?
   // NO I can't, maybe use ramda?
@@ -271,7 +368,7 @@ export function resolveCellsInDirection(direction: Vector, grid: Grid) {
 
   // could probably simplify both directions to a single loop but this feels more readable
   if (direction.x === 0) {
-    for (let x = 0; x < nextGrid.size; ++x) {
+    for (let x = 0; x < nextGrid.width; ++x) {
       // read column from cloned grid
       const column = getColumnAt(x, nextGrid);
       // update column, returns shallow cloned data
@@ -280,7 +377,7 @@ export function resolveCellsInDirection(direction: Vector, grid: Grid) {
       setColumnAt(x, nextColumn, nextGrid);
     }
   } else if (direction.y === 0) {
-    for (let y = 0; y < nextGrid.size; ++y) {
+    for (let y = 0; y < nextGrid.height; ++y) {
       const row = getRowAt(y, nextGrid);
       const nextRow = resolveColumnOrRowInDirection(direction.x, row);
       setRowAt(y, nextRow, nextGrid);
@@ -292,6 +389,122 @@ export function resolveCellsInDirection(direction: Vector, grid: Grid) {
   return nextGrid;
 }
 
+// compares the grids before and after a move, which must not have spawned any blocks
+export function getBlockMoves(grid: Grid, nextGrid: Grid): BlockMove[] {
+  const fromPositions = new Map<string, Vector>();
+  const result: BlockMove[] = [];
+
+  iterateCells(grid, (cell, position) => {
+    if (cell.block) {
+      fromPositions.set(cell.block.id, position);
+    }
+  });
+
+  iterateCells(nextGrid, ({ block, mergedBlock }, position) => {
+    if (!block) {
+      return;
+    }
+
+    result.push({
+      id: block.id,
+      from: fromPositions.get(block.id) ?? position,
+      to: position,
+      mergedWith: mergedBlock?.id ?? null,
+      isMerged: false,
+    });
+
+    if (mergedBlock) {
+      result.push({
+        id: mergedBlock.id,
+        from: fromPositions.get(mergedBlock.id) ?? position,
+        to: position,
+        mergedWith: block.id,
+        isMerged: true,
+      });
+    }
+  });
+
+  return result;
+}
+
+export function resolveMove(direction: Vector, grid: Grid): MoveResult {
+  const nextGrid = resolveCellsInDirection(direction, grid);
+  const blockMoves = getBlockMoves(grid, nextGrid);
+
+  return {
+    grid: nextGrid,
+    hasChanged: blockMoves.some(
+      ({ from, to, mergedWith }) =>
+        mergedWith !== null || from.x !== to.x || from.y !== to.y,
+    ),
+    blockMoves,
+  };
+}
+
+export function collectBlockIds(grid: Grid): Set<string> {
+  const ids = new Set<string>();
+
+  iterateCells(grid, (cell) => {
+    if (cell.block) {
+      ids.add(cell.block.id);
+    }
+  });
+
+  return ids;
+}
+
+/**
+ * When jumping between history snapshots blocks can appear or disappear, not just move.
+ * Blocks which only exist in the next grid are flagged as new so they spawn in, blocks which
+ * only exist in the current grid are kept as merged blocks in their current position so they
+ * shrink away, instead of either popping in or out of existence
+ */
+export function prepareGridTransition(currentGrid: Grid, nextGrid: Grid): Grid {
+  const currentIds = collectBlockIds(currentGrid);
+  const nextIds = collectBlockIds(nextGrid);
+  const result = updateCells(cloneGrid(nextGrid), (cell) => {
+    if (!cell.block || currentIds.has(cell.block.id)) {
+      return cell;
+    }
+
+    return {
+      ...cell,
+      block: {
+        ...cell.block,
+        isNew: true,
+      },
+    };
+  });
+
+  iterateCells(currentGrid, (cell, position) => {
+    if (cell.block && !nextIds.has(cell.block.id)) {
+      setCellAt(
+        position,
+        {
+          ...getCellAt(position, result),
+          mergedBlock: cell.block,
+        },
+        result,
+      );
+    }
+  });
+
+  return result;
+}
+
+// the points earned by a move are the sum of the values of all newly merged blocks
+export function getMergedScore(grid: Grid): number {
+  let score = 0;
+
+  iterateCells(grid, (cell) => {
+    if (cell.mergedBlock && cell.block) {
+      score += cell.block.value;
+    }
+  });
+
+  return score;
+}
+
 export function hasLost(grid: Grid): boolean {
   const emptyCells = findEmptyCellPositions(grid);
 
@@ -302,24 +515,23 @@ export function hasLost(grid: Grid): boolean {
 
   // even if there are no empty cells test whether the user can make a move to create
   // empty cells before the next spawn
-  for (let x = 0; x < grid.size; ++x) {
-    const column = getColumnAt(x, grid);
-    // we know there's no nullish blocks
-    const blocks = pluckBlocks(column) as Block[];
-    // direction doesn't matter in this case
-    const { hasBlockPairs } = findBlockPairs(1, blocks);
-
-    if (hasBlockPairs) {
+  // direction doesn't matter in this case
+  const hasSegmentPairs = (cells: Cell[]) =>
+    splitIntoSegments(cells).some((segment) => {
+      // we know there's no nullish blocks once obstacles are split out
+      const blocks = pluckBlocks(segment) as Block[];
+
+      return findBlockPairs(1, blocks).hasBlockPairs;
+    });
+
+  for (let x = 0; x < grid.width; ++x) {
+    if (hasSegmentPairs(getColumnAt(x, grid))) {
       return false;
     }
   }
 
-  for (let y = 0; y < grid.size; ++y) {
-    const row = getRowAt(y, grid);
-    const blocks = pluckBlocks(row) as Block[];
-    const { hasBlockPairs } = findBlockPairs(1, blocks);
-
-    if (hasBlockPairs) {
+  for (let y = 0; y < grid.height; ++y) {
+    if (hasSegmentPairs(getRowAt(y, grid))) {
       return false;
     }
   }
@@ -327,29 +539,49 @@ export function hasLost(grid: Grid): boolean {
   return true;
 }
 
-export function hasWon(grid: Grid): boolean {
+export function getMaxBlockValue(grid: Grid): number {
   let maxBlockValue = 0;
 
   iterateCells(grid, (cell) => {
     maxBlockValue = Math.max(maxBlockValue, cell.block?.value ?? 0);
   });
 
-  return maxBlockValue === 2048;
+  return maxBlockValue;
 }
 
+export function hasWon(grid: Grid, winValue: number): boolean {
+  return getMaxBlockValue(grid) >= winValue;
+}
+
+// the length on screen of a row or column of cells
+export const getGridScreenSize = (cellCount: number) =>
+  cellCount * BOX_SIZE + (cellCount - 1) * BOX_GAP;
+
 // three.js coord system has positive y axis -> up and origin in the center
 export function gridToScreenPosition(
-  gridSize: number,
+  { width, height }: Pick<Grid, 'width' | 'height'>,
   gridPosition: Vector,
 ): Vector3 {
-  const gridScreenSize = gridSize * BOX_SIZE + (gridSize - 1) * BOX_GAP;
-  const gridCenter = gridScreenSize / 2;
+  const getGridCenter = (cellCount: number) => getGridScreenSize(cellCount) / 2;
   const boxCenter = BOX_SIZE / 2;
   const gridToScreenCoord = (val: number) => val * (BOX_SIZE + BOX_GAP) + 1;
 
   return new Vector3(
-    gridToScreenCoord(gridPosition.x) - gridCenter - boxCenter,
-    gridToScreenCoord(gridSize - gridPosition.y - 1) - gridCenter - boxCenter,
+    gridToScreenCoord(gridPosition.x) - getGridCenter(width) - boxCenter,
+    gridToScreenCoord(height - gridPosition.y - 1) -
+      getGridCenter(height) -
+      boxCenter,
     0,
   );
 }
+
+// how far away a camera with the given vertical field of view needs to be to fit the
+// whole grid, plus a box of margin on each side, into a square view
+export function getCameraDistance(
+  { width, height }: Pick<Grid, 'width' | 'height'>,
+  fov: number,
+): number {
+  const halfScreenSize = getGridScreenSize(Math.max(width, height)) / 2;
+
+  return (halfScreenSize + BOX_SIZE) / Math.tan(MathUtils.degToRad(fov / 2));
+}
@@ -0,0 +1,165 @@
+import {
+  createInputQueue,
+  createInputRegistry,
+  createKeyboardInputSource,
+  getGamepadDirection,
+  getKeyDirection,
+  getSwipeDirection,
+  InputListener,
+  KEY_BINDING_PRESETS,
+  sanitizeKeyBindings,
+} from './input';
+
+const thresholds = {
+  minDistance: 30,
+  minVelocity: 0.2,
+};
+
+describe('input', () => {
+  it('converts swipes to directions along the dominant axis', () => {
+    expect(getSwipeDirection({ x: -100, y: 20 }, 100, thresholds)).toEqual({
+      x: -1,
+      y: 0,
+    });
+    expect(getSwipeDirection({ x: 100, y: -20 }, 100, thresholds)).toEqual({
+      x: 1,
+      y: 0,
+    });
+    expect(getSwipeDirection({ x: 20, y: -100 }, 100, thresholds)).toEqual({
+      x: 0,
+      y: -1,
+    });
+    expect(getSwipeDirection({ x: -20, y: 100 }, 100, thresholds)).toEqual({
+      x: 0,
+      y: 1,
+    });
+  });
+
+  it('ignores swipes which are too short', () => {
+    expect(getSwipeDirection({ x: 29, y: 0 }, 10, thresholds)).toEqual(null);
+  });
+
+  it('ignores swipes which are too slow', () => {
+    expect(getSwipeDirection({ x: 100, y: 0 }, 1000, thresholds)).toEqual(null);
+  });
+
+  it('maps bound keys to directions', () => {
+    const { vim } = KEY_BINDING_PRESETS;
+
+    expect(getKeyDirection('h', vim)).toEqual({ x: -1, y: 0 });
+    expect(getKeyDirection('K', vim)).toEqual({ x: 0, y: -1 });
+    expect(getKeyDirection('ArrowDown', vim)).toEqual({ x: 0, y: 1 });
+    expect(getKeyDirection('w', vim)).toEqual(null);
+  });
+
+  it('falls back to the arrow keys for invalid stored key bindings', () => {
+    expect(sanitizeKeyBindings(KEY_BINDING_PRESETS.vim)).toEqual(
+      KEY_BINDING_PRESETS.vim,
+    );
+    expect(
+      sanitizeKeyBindings({ ...KEY_BINDING_PRESETS.wasd, extra: 'x' }),
+    ).toEqual(KEY_BINDING_PRESETS.wasd);
+    expect(sanitizeKeyBindings(null)).toEqual(KEY_BINDING_PRESETS.arrows);
+    expect(sanitizeKeyBindings('wasd')).toEqual(KEY_BINDING_PRESETS.arrows);
+    expect(sanitizeKeyBindings({ up: 'w', down: 's', left: 'a' })).toEqual(
+      KEY_BINDING_PRESETS.arrows,
+    );
+    expect(
+      sanitizeKeyBindings({ ...KEY_BINDING_PRESETS.wasd, right: 68 }),
+    ).toEqual(KEY_BINDING_PRESETS.arrows);
+  });
+
+  it('maps the gamepad d-pad and left stick to directions', () => {
+    expect(getGamepadDirection([14], [0, 0])).toEqual({ x: -1, y: 0 });
+    expect(getGamepadDirection([12], [1, 0])).toEqual({ x: 0, y: -1 });
+    expect(getGamepadDirection([], [0.9, 0.2])).toEqual({ x: 1, y: 0 });
+    expect(getGamepadDirection([], [0.1, 0.3], 0.5)).toEqual(null);
+    expect(getGamepadDirection([0], [])).toEqual(null);
+  });
+
+  it('only listens to registered sources whilst subscribed', () => {
+    const registry = createInputRegistry();
+    let emit: InputListener = () => {};
+    const cleanup = jest.fn();
+    const source = jest.fn((onInput: InputListener) => {
+      emit = onInput;
+      return cleanup;
+    });
+    const listener = jest.fn();
+
+    registry.register(source);
+    expect(source).not.toHaveBeenCalled();
+
+    const unsubscribe = registry.subscribe(listener);
+    emit({ type: 'UNDO' });
+
+    expect(source).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'UNDO' });
+
+    unsubscribe();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores keys pressed in form controls', () => {
+    const listener = jest.fn();
+    const select = document.createElement('select');
+    const unsubscribe = createKeyboardInputSource(KEY_BINDING_PRESETS.arrows)(
+      listener,
+    );
+
+    document.body.appendChild(select);
+    select.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true }),
+    );
+    expect(listener).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+    expect(listener).toHaveBeenCalledWith({
+      type: 'MOVE',
+      direction: { x: 0, y: 1 },
+    });
+
+    unsubscribe();
+    select.remove();
+  });
+
+  it('queues commands in order up to its depth', () => {
+    const queue = createInputQueue(2);
+    const left = { type: 'MOVE' as const, direction: { x: -1, y: 0 } };
+    const up = { type: 'MOVE' as const, direction: { x: 0, y: -1 } };
+
+    expect(queue.push(left)).toEqual(true);
+    expect(queue.push(up)).toEqual(true);
+    expect(queue.push(left)).toEqual(false);
+    expect(queue.size()).toEqual(2);
+
+    expect(queue.shift()).toEqual(left);
+    expect(queue.shift()).toEqual(up);
+    expect(queue.shift()).toBeUndefined();
+
+    queue.push(up);
+    queue.clear();
+    expect(queue.size()).toEqual(0);
+    expect(createInputQueue(0).push(up)).toEqual(false);
+  });
+
+  it('keeps queued commands which still fit when its depth changes', () => {
+    const queue = createInputQueue(3);
+    const left = { type: 'MOVE' as const, direction: { x: -1, y: 0 } };
+    const up = { type: 'MOVE' as const, direction: { x: 0, y: -1 } };
+
+    queue.push(left);
+    queue.push(up);
+    queue.push(up);
+    queue.setDepth(1);
+
+    expect(queue.depth()).toEqual(1);
+    expect(queue.size()).toEqual(1);
+    expect(queue.shift()).toEqual(left);
+
+    queue.setDepth(2);
+    expect(queue.push(up)).toEqual(true);
+    expect(queue.push(up)).toEqual(true);
+    expect(queue.push(up)).toEqual(false);
+  });
+});
@@ -0,0 +1,414 @@
+import { Vector } from './types';
+import {
+  GAMEPAD_DEADZONE,
+  SWIPE_MIN_DISTANCE,
+  SWIPE_MIN_VELOCITY,
+} from './consts';
+
+export type InputCommand =
+  | {
+      type: 'MOVE';
+      direction: Vector;
+    }
+  | {
+      type: 'UNDO';
+    }
+  | {
+      type: 'REDO';
+    };
+export type InputListener = (command: InputCommand) => void;
+// subscribes to a source of input, returning an unsubscribe function
+export type InputSource = (onInput: InputListener) => () => void;
+
+export type DirectionName = 'up' | 'down' | 'left' | 'right';
+export type KeyBindings = Record<DirectionName, string>;
+
+export const DIRECTION_VECTORS: Record<DirectionName, Vector> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+export const KEY_BINDING_PRESETS: Record<string, KeyBindings> = {
+  arrows: {
+    up: 'ArrowUp',
+    down: 'ArrowDown',
+    left: 'ArrowLeft',
+    right: 'ArrowRight',
+  },
+  wasd: {
+    up: 'w',
+    down: 's',
+    left: 'a',
+    right: 'd',
+  },
+  vim: {
+    up: 'k',
+    down: 'j',
+    left: 'h',
+    right: 'l',
+  },
+};
+
+/**
+ * Key bindings are loaded from storage, so they may have been saved by an older version
+ * of the game or edited by hand. Unless every direction is bound to a key, the arrow keys
+ * are used instead
+ */
+export function sanitizeKeyBindings(data: unknown): KeyBindings {
+  const { up, down, left, right } = (data ?? {}) as Partial<
+    Record<DirectionName, unknown>
+  >;
+  const isKey = (key: unknown): key is string =>
+    typeof key === 'string' && key !== '';
+
+  return isKey(up) && isKey(down) && isKey(left) && isKey(right)
+    ? { up, down, left, right }
+    : KEY_BINDING_PRESETS.arrows;
+}
+
+// single characters are matched regardless of case (or caps lock)
+const normalizeKey = (key: string) =>
+  key.length === 1 ? key.toLowerCase() : key;
+
+/**
+ * Arrow keys always work, alongside whichever keys have been bound, so the game can't be
+ * made unplayable by a bad custom binding
+ */
+export function getKeyDirection(
+  key: string,
+  bindings: KeyBindings,
+): Vector | null {
+  const directionNames = Object.keys(DIRECTION_VECTORS) as DirectionName[];
+  const directionName = directionNames.find(
+    (name) =>
+      normalizeKey(bindings[name]) === normalizeKey(key) ||
+      KEY_BINDING_PRESETS.arrows[name] === key,
+  );
+
+  return directionName ? DIRECTION_VECTORS[directionName] : null;
+}
+
+// keys pressed in a form control are meant for it, such as the arrow keys in a select
+const FORM_CONTROL_TAGS = ['INPUT', 'SELECT', 'TEXTAREA'];
+
+export const createKeyboardInputSource =
+  (bindings: KeyBindings): InputSource =>
+  (onInput) => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLElement &&
+        FORM_CONTROL_TAGS.includes(e.target.tagName)
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+
+      if ((e.ctrlKey || e.metaKey) && ['z', 'y'].includes(key)) {
+        e.preventDefault();
+        onInput({ type: key === 'y' || e.shiftKey ? 'REDO' : 'UNDO' });
+        return;
+      }
+
+      const direction = getKeyDirection(e.key, bindings);
+
+      if (!direction || e.ctrlKey || e.metaKey || e.altKey) {
+        return;
+      }
+
+      onInput({ type: 'MOVE', direction });
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  };
+
+export type SwipeThresholds = {
+  // in pixels
+  minDistance: number;
+  // in pixels per millisecond
+  minVelocity: number;
+};
+
+const DEFAULT_SWIPE_THRESHOLDS: SwipeThresholds = {
+  minDistance: SWIPE_MIN_DISTANCE,
+  minVelocity: SWIPE_MIN_VELOCITY,
+};
+
+/**
+ * Converts a pointer movement to a direction along its dominant axis. Short or slow
+ * movements are ignored so that taps and accidental nudges aren't treated as moves.
+ * Screen space y points down, the same as grid space
+ */
+export function getSwipeDirection(
+  delta: Vector,
+  duration: number,
+  { minDistance, minVelocity }: SwipeThresholds = DEFAULT_SWIPE_THRESHOLDS,
+): Vector | null {
+  const absX = Math.abs(delta.x);
+  const absY = Math.abs(delta.y);
+  const distance = Math.max(absX, absY);
+  // guard against pointer events with identical timestamps
+  const velocity = distance / Math.max(duration, 1);
+
+  if (distance < minDistance || velocity < minVelocity) {
+    return null;
+  }
+
+  return absX > absY
+    ? { x: Math.sign(delta.x), y: 0 }
+    : { x: 0, y: Math.sign(delta.y) };
+}
+
+// pointer events cover touch swipes and mouse drags alike
+export const createSwipeInputSource =
+  (element: HTMLElement, thresholds = DEFAULT_SWIPE_THRESHOLDS): InputSource =>
+  (onInput) => {
+    let start: (Vector & { time: number; pointerId: number }) | null = null;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (start || !e.isPrimary) {
+        return;
+      }
+
+      start = {
+        x: e.clientX,
+        y: e.clientY,
+        time: e.timeStamp,
+        pointerId: e.pointerId,
+      };
+      // keep receiving events if the pointer leaves the element mid swipe
+      element.setPointerCapture?.(e.pointerId);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!start || start.pointerId !== e.pointerId) {
+        return;
+      }
+
+      const direction = getSwipeDirection(
+        { x: e.clientX - start.x, y: e.clientY - start.y },
+        e.timeStamp - start.time,
+        thresholds,
+      );
+
+      start = null;
+
+      if (direction) {
+        onInput({ type: 'MOVE', direction });
+      }
+    };
+
+    const handlePointerCancel = () => {
+      start = null;
+    };
+
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('pointerup', handlePointerUp);
+    element.addEventListener('pointercancel', handlePointerCancel);
+
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointerup', handlePointerUp);
+      element.removeEventListener('pointercancel', handlePointerCancel);
+    };
+  };
+
+// button indices from the W3C "standard" gamepad mapping
+const GAMEPAD_BUTTON_DIRECTIONS: Record<number, Vector> = {
+  12: DIRECTION_VECTORS.up,
+  13: DIRECTION_VECTORS.down,
+  14: DIRECTION_VECTORS.left,
+  15: DIRECTION_VECTORS.right,
+};
+const GAMEPAD_UNDO_BUTTON = 4;
+const GAMEPAD_REDO_BUTTON = 5;
+
+// the d-pad takes priority over the left stick, which is ignored within the deadzone
+export function getGamepadDirection(
+  pressedButtons: number[],
+  axes: readonly number[],
+  deadzone = GAMEPAD_DEADZONE,
+): Vector | null {
+  const button = pressedButtons.find(
+    (index) => GAMEPAD_BUTTON_DIRECTIONS[index],
+  );
+
+  if (button !== undefined) {
+    return GAMEPAD_BUTTON_DIRECTIONS[button];
+  }
+
+  const [x = 0, y = 0] = axes;
+
+  if (Math.max(Math.abs(x), Math.abs(y)) < deadzone) {
+    return null;
+  }
+
+  return Math.abs(x) > Math.abs(y)
+    ? { x: Math.sign(x), y: 0 }
+    : { x: 0, y: Math.sign(y) };
+}
+
+const isSameDirection = (a: Vector | null, b: Vector | null) =>
+  a?.x === b?.x && a?.y === b?.y;
+
+/**
+ * Gamepads can only be polled. Input only fires when the stick or d-pad moves to a new
+ * direction, so holding a direction doesn't repeat the move on every frame. The last input
+ * is kept between subscriptions, so a direction held through an animation doesn't repeat
+ * once input resumes either
+ */
+export const createGamepadInputSource = (
+  deadzone = GAMEPAD_DEADZONE,
+): InputSource => {
+  let lastDirection: Vector | null = null;
+  let lastPressedButtons: number[] = [];
+
+  return (onInput) => {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) {
+      return () => {};
+    }
+
+    let frame = 0;
+
+    const poll = () => {
+      const gamepad = navigator.getGamepads().find(Boolean);
+
+      if (gamepad) {
+        const pressedButtons = gamepad.buttons
+          .map((button, index) => (button.pressed ? index : -1))
+          .filter((index) => index !== -1);
+        const direction = getGamepadDirection(
+          pressedButtons,
+          gamepad.axes,
+          deadzone,
+        );
+        const isNewPress = (index: number) =>
+          pressedButtons.includes(index) && !lastPressedButtons.includes(index);
+
+        if (direction && !isSameDirection(direction, lastDirection)) {
+          onInput({ type: 'MOVE', direction });
+        } else if (isNewPress(GAMEPAD_UNDO_BUTTON)) {
+          onInput({ type: 'UNDO' });
+        } else if (isNewPress(GAMEPAD_REDO_BUTTON)) {
+          onInput({ type: 'REDO' });
+        }
+
+        lastDirection = direction;
+        lastPressedButtons = pressedButtons;
+      }
+
+      frame = requestAnimationFrame(poll);
+    };
+
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  };
+};
+
+export type InputRegistry = {
+  // sources can be added or removed at any time, returns an unregister function
+  register: (source: InputSource) => () => void;
+  // sources are only listened to whilst there is a subscriber
+  subscribe: (listener: InputListener) => () => void;
+};
+
+export function createInputRegistry(): InputRegistry {
+  let sources: InputSource[] = [];
+  let listeners: InputListener[] = [];
+  const cleanups = new Map<InputSource, () => void>();
+
+  const emit: InputListener = (command) => {
+    listeners.slice().forEach((listener) => listener(command));
+  };
+
+  const attach = (source: InputSource) => {
+    cleanups.set(source, source(emit));
+  };
+
+  const detach = (source: InputSource) => {
+    cleanups.get(source)?.();
+    cleanups.delete(source);
+  };
+
+  return {
+    register: (source) => {
+      sources = [...sources, source];
+
+      if (listeners.length) {
+        attach(source);
+      }
+
+      return () => {
+        sources = sources.filter((s) => s !== source);
+        detach(source);
+      };
+    },
+    subscribe: (listener) => {
+      listeners = [...listeners, listener];
+
+      if (listeners.length === 1) {
+        sources.forEach(attach);
+      }
+
+      return () => {
+        listeners = listeners.filter((l) => l !== listener);
+
+        if (!listeners.length) {
+          sources.forEach(detach);
+        }
+      };
+    },
+  };
+}
+
+/**
+ * Holds on to moves made whilst the game is busy animating, so that they can be played
+ * once it's waiting for input again. Anything beyond its depth is dropped, so a held key
+ * can't queue up moves for long after it's let go of
+ */
+export type InputQueue = {
+  depth: () => number;
+  // changing the depth keeps whatever is already queued, dropping the latest commands
+  // if they no longer fit
+  setDepth: (depth: number) => void;
+  // returns false if the queue is full and the command was dropped
+  push: (command: InputCommand) => boolean;
+  shift: () => InputCommand | undefined;
+  clear: () => void;
+  size: () => number;
+};
+
+export function createInputQueue(depth: number): InputQueue {
+  let commands: InputCommand[] = [];
+
+  return {
+    depth: () => depth,
+    setDepth: (nextDepth) => {
+      depth = nextDepth;
+      commands = commands.slice(0, depth);
+    },
+    push: (command) => {
+      if (commands.length >= depth) {
+        return false;
+      }
+
+      commands = [...commands, command];
+
+      return true;
+    },
+    shift: () => {
+      const [command, ...rest] = commands;
+
+      commands = rest;
+
+      return command;
+    },
+    clear: () => {
+      commands = [];
+    },
+    size: () => commands.length,
+  };
+}
@@ -0,0 +1,38 @@
+import {
+  getMergeEffectSize,
+  makeParticleOffsets,
+  MERGE_EFFECT_SIZES,
+} from './mergeEffectUtils';
+
+describe('mergeEffectUtils', () => {
+  it('uses bigger effects for milestone blocks', () => {
+    expect(getMergeEffectSize(8)).toBe(MERGE_EFFECT_SIZES.regular);
+    expect(getMergeEffectSize(256)).toBe(MERGE_EFFECT_SIZES.regular);
+    expect(getMergeEffectSize(512)).toBe(MERGE_EFFECT_SIZES.milestone);
+    expect(getMergeEffectSize(4096)).toBe(MERGE_EFFECT_SIZES.milestone);
+    expect(MERGE_EFFECT_SIZES.milestone.particleCount).toBeGreaterThan(
+      MERGE_EFFECT_SIZES.regular.particleCount,
+    );
+  });
+
+  it('spreads particles all the way around the merge', () => {
+    const offsets = makeParticleOffsets(4, 1, () => 0);
+
+    expect(offsets).toHaveLength(4);
+    offsets.forEach((offset) => {
+      expect(offset.length()).toBeCloseTo(0.5);
+      expect(offset.z).toEqual(0);
+    });
+    // one in each quarter of the circle
+    expect(offsets[0].x).toBeCloseTo(0.5);
+    expect(offsets[1].y).toBeCloseTo(0.5);
+    expect(offsets[2].x).toBeCloseTo(-0.5);
+    expect(offsets[3].y).toBeCloseTo(-0.5);
+  });
+
+  it('never spreads particles further than asked', () => {
+    makeParticleOffsets(20, 2).forEach((offset) => {
+      expect(offset.length()).toBeLessThanOrEqual(2);
+    });
+  });
+});
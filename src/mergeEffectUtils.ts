@@ -0,0 +1,112 @@
+import { Vector3 } from 'three';
+
+import { MERGE_MILESTONE_VALUE } from './consts';
+import { GameEventMap } from './gameEngine';
+import { buildArray } from './gridUtils';
+import { DEFAULT_TEXTURE_ATLAS_OPTIONS } from './textureAtlas';
+import { BoxColors } from './themes';
+
+export type MergeEvent = GameEventMap['merge'];
+export type MergeListener = (merge: MergeEvent) => void;
+// returns an unsubscribe function, the same as GameEngine.on
+export type SubscribeToMerges = (listener: MergeListener) => () => void;
+
+export type MergeEffectSize = {
+  // how much bigger the kept block grows before settling back
+  punchScale: number;
+  particleCount: number;
+  // in world units, how far the particles spread by the end of the burst
+  particleSpread: number;
+  particleSize: number;
+  // the height of the "+N" text, in world units
+  floaterSize: number;
+};
+
+export const MERGE_EFFECT_SIZES: Record<
+  'regular' | 'milestone',
+  MergeEffectSize
+> = {
+  regular: {
+    punchScale: 1.15,
+    particleCount: 12,
+    particleSpread: 0.9,
+    particleSize: 0.08,
+    floaterSize: 0.4,
+  },
+  milestone: {
+    punchScale: 1.35,
+    particleCount: 40,
+    particleSpread: 1.8,
+    particleSize: 0.12,
+    floaterSize: 0.7,
+  },
+};
+
+export const getMergeEffectSize = (value: number): MergeEffectSize =>
+  MERGE_EFFECT_SIZES[value >= MERGE_MILESTONE_VALUE ? 'milestone' : 'regular'];
+
+/**
+ * Where each particle ends up relative to the merge, spread evenly around a circle so
+ * that small bursts don't bunch up, with some randomness in each angle and distance
+ */
+export function makeParticleOffsets(
+  count: number,
+  spread: number,
+  random: () => number = Math.random,
+): Vector3[] {
+  return buildArray(count, (index) => {
+    const angle = ((index + random() * 0.5) / count) * Math.PI * 2;
+    const distance = spread * (0.5 + random() * 0.5);
+
+    return new Vector3(
+      Math.cos(angle) * distance,
+      Math.sin(angle) * distance,
+      0,
+    );
+  });
+}
+
+// the floater's canvas is twice as wide as it is high, longer numbers shrink to fit
+const SCORE_TEXT_HEIGHT = 128;
+
+// draws "+N" in the block's colors, outlined so that it shows up against any background
+export function drawScoreText(
+  points: number,
+  { color, background }: BoxColors,
+): HTMLCanvasElement {
+  const { fontFamily, fontWeight } = DEFAULT_TEXTURE_ATLAS_OPTIONS;
+  const canvas = document.createElement('canvas');
+
+  canvas.width = SCORE_TEXT_HEIGHT * 2;
+  canvas.height = SCORE_TEXT_HEIGHT;
+
+  const context = canvas.getContext('2d');
+
+  if (!context) {
+    throw Error('Unable to draw score text without a 2d canvas context');
+  }
+
+  const text = `+${points}`;
+  const fontSize = SCORE_TEXT_HEIGHT * 0.7;
+  const maxTextWidth = canvas.width * 0.9;
+
+  context.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+
+  const width = context.measureText(text).width;
+  const fittedSize =
+    width > maxTextWidth
+      ? Math.floor((fontSize * maxTextWidth) / width)
+      : fontSize;
+
+  context.font = `${fontWeight} ${fittedSize}px ${fontFamily}`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.lineJoin = 'round';
+  context.lineWidth = fittedSize / 8;
+  context.strokeStyle = color;
+  context.fillStyle = background;
+  context.strokeText(text, canvas.width / 2, canvas.height / 2);
+  context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+  return canvas;
+}
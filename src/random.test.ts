@@ -0,0 +1,93 @@
+import {
+  createRandomGenerator,
+  getDailySeed,
+  hashSeed,
+  makeRandomSeed,
+} from './random';
+import { makeNewBlock } from './gridUtils';
+import {
+  arrayRandomItem,
+  randomIntInclusive,
+  weightedRandomItem,
+} from './utils';
+
+const takeRandoms = (state: number, count: number): number[] => {
+  const { random } = createRandomGenerator(state);
+
+  return new Array(count).fill(0).map(() => random());
+};
+
+describe('random', () => {
+  it('hashes seeds consistently', () => {
+    expect(hashSeed('2048')).toEqual(hashSeed('2048'));
+    expect(hashSeed('2048')).not.toEqual(hashSeed('4096'));
+  });
+
+  it('generates the same sequence for the same state', () => {
+    const state = hashSeed('seed');
+
+    expect(takeRandoms(state, 20)).toEqual(takeRandoms(state, 20));
+    expect(takeRandoms(state, 20)).not.toEqual(
+      takeRandoms(hashSeed('other seed'), 20),
+    );
+  });
+
+  it('generates numbers in the range [0, 1)', () => {
+    takeRandoms(hashSeed('range'), 1000).forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('resumes a sequence from its state', () => {
+    const { random, getState } = createRandomGenerator(hashSeed('resume'));
+
+    random();
+    random();
+
+    const resumed = createRandomGenerator(getState());
+
+    expect(resumed.random()).toEqual(random());
+  });
+
+  it('makes deterministic blocks and picks from a seeded generator', () => {
+    const makeBlocks = () => {
+      const { random } = createRandomGenerator(hashSeed('blocks'));
+
+      return [
+        makeNewBlock(2, random),
+        makeNewBlock(4, random),
+        randomIntInclusive(0, 5, random),
+        arrayRandomItem(['a', 'b', 'c'], random),
+      ];
+    };
+
+    expect(makeBlocks()).toEqual(makeBlocks());
+  });
+
+  it('makes a random seed string', () => {
+    expect(typeof makeRandomSeed()).toEqual('string');
+  });
+
+  it('makes a daily seed from a date', () => {
+    expect(getDailySeed(new Date(2023, 0, 5))).toEqual('daily-2023-01-05');
+  });
+
+  it('picks weighted items in proportion to their weight', () => {
+    const { random } = createRandomGenerator(hashSeed('weighted'));
+    const items = [
+      { value: 2, weight: 9 },
+      { value: 4, weight: 1 },
+      { value: 8, weight: 0 },
+    ];
+    const counts: Record<number, number> = { 2: 0, 4: 0, 8: 0 };
+
+    for (let i = 0; i < 1000; ++i) {
+      counts[weightedRandomItem(items, random).value] += 1;
+    }
+
+    expect(counts[2]).toBeGreaterThan(850);
+    expect(counts[4]).toBeGreaterThan(50);
+    expect(counts[8]).toEqual(0);
+  });
+});
@@ -0,0 +1,50 @@
+import { RandomFn, RandomGenerator } from './types';
+
+// FNV-1a, hashes any string seed down to a 32 bit PRNG state
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < seed.length; ++i) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32, a tiny and fast PRNG with a single 32 bit number of state. Because the state
+ * is just a number it can be stored in reducer state, which keeps the reducer pure and lets
+ * the same seed always reproduce the same game
+ */
+export function createRandomGenerator(state: number): RandomGenerator {
+  let current = state >>> 0;
+
+  return {
+    random: () => {
+      current = (current + 0x6d2b79f5) >>> 0;
+
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => current,
+  };
+}
+
+export const randomBytes = (count: number, random: RandomFn): number[] =>
+  new Array(count).fill(0).map(() => Math.floor(random() * 256));
+
+// the seed itself is the only place where we allow true randomness
+export const makeRandomSeed = (): string =>
+  Math.floor(Math.random() * 0x100000000).toString(36);
+
+const padDatePart = (value: number) => `${value}`.padStart(2, '0');
+
+// everybody playing on the same (local) day gets the same board
+export const getDailySeed = (date = new Date()): string =>
+  `daily-${date.getFullYear()}-${padDatePart(
+    date.getMonth() + 1,
+  )}-${padDatePart(date.getDate())}`;
@@ -0,0 +1,113 @@
+import { createGameEngine } from './gameEngine';
+import {
+  applyReplayCommand,
+  createGameRecorder,
+  createReplayEngine,
+  decodeRecording,
+  encodeRecording,
+  GameRecording,
+  getReplayCommands,
+  REPLAY_DIVERGED_ERROR,
+  replayRecording,
+} from './replay';
+
+const UP = { x: 0, y: -1 };
+const DOWN = { x: 0, y: 1 };
+const LEFT = { x: -1, y: 0 };
+const RIGHT = { x: 1, y: 0 };
+const DIRECTIONS = [UP, RIGHT, DOWN, LEFT];
+
+// plays a few moves with an undo and redo along the way
+const recordGame = (seed: string) => {
+  const engine = createGameEngine({ size: 4, seed });
+  const recorder = createGameRecorder(engine);
+
+  for (let i = 0; engine.getState().phase === 'INPUT' && i < 20; ++i) {
+    engine.move(DIRECTIONS[i % DIRECTIONS.length]);
+  }
+
+  engine.undo();
+  engine.undo();
+  engine.redo();
+
+  return { engine, recording: recorder.getRecording() as GameRecording };
+};
+
+describe('replay', () => {
+  it('replays a recorded game to an identical state', () => {
+    const { engine, recording } = recordGame('replay');
+    const replayed = replayRecording(recording).getState();
+    const { grid, score, moveCount, phase } = engine.getState();
+
+    expect(recording.actions).toMatch(/^[udlr]+zzy$/);
+    expect(replayed.score).toEqual(score);
+    expect(replayed.moveCount).toEqual(moveCount);
+    expect(replayed.phase).toEqual(phase);
+    expect(
+      replayed.grid.rows.map((row) => row.map((cell) => cell.block?.value)),
+    ).toEqual(grid.rows.map((row) => row.map((cell) => cell.block?.value)));
+  });
+
+  it('round trips a recording through a shareable string', () => {
+    const { recording } = recordGame('répétition 🎲');
+    const encoded = encodeRecording(recording);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeRecording(encoded)).toEqual(recording);
+    expect(decodeRecording(JSON.stringify(recording))).toEqual(recording);
+  });
+
+  it('rejects recordings it cannot play', () => {
+    const { recording } = recordGame('invalid');
+
+    expect(() => decodeRecording('not a recording')).toThrow();
+    expect(() =>
+      decodeRecording(JSON.stringify({ ...recording, version: 99 })),
+    ).toThrow();
+  });
+
+  it('throws when a replay diverges from the recording', () => {
+    const { recording } = recordGame('diverge');
+    const [[x, y, value], ...spawns] = recording.spawns;
+
+    expect(() =>
+      replayRecording({
+        ...recording,
+        spawns: [[x, y, value * 2], ...spawns],
+      }),
+    ).toThrow('diverged');
+  });
+
+  it('reports a diverged replay once, rather than throwing from the engine', () => {
+    const { recording } = recordGame('report');
+    const divergedRecording: GameRecording = {
+      ...recording,
+      spawns: recording.spawns.map(([x, y, value]) => [x, y, value * 2]),
+    };
+    const onDiverge = jest.fn();
+    const engine = createReplayEngine(divergedRecording, false, onDiverge);
+
+    getReplayCommands(divergedRecording).forEach((command) =>
+      expect(() => applyReplayCommand(engine, command)).not.toThrow(),
+    );
+    expect(onDiverge).toHaveBeenCalledTimes(1);
+    expect(onDiverge).toHaveBeenCalledWith(REPLAY_DIVERGED_ERROR);
+  });
+
+  it('starts a fresh recording when the game restarts', () => {
+    const engine = createGameEngine({ size: 4, seed: 'restart' });
+    const recorder = createGameRecorder(engine, null);
+
+    engine.move(LEFT);
+    expect(recorder.getRecording()).toBeNull();
+
+    engine.restart();
+    engine.move(RIGHT);
+
+    const recording = recorder.getRecording() as GameRecording;
+
+    expect(recording.actions).toEqual('r');
+    expect(recording.seed).toEqual(engine.getState().seed);
+    expect(replayRecording(recording).getState().grid).toBeDefined();
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  AddNewBlockAction,
+  BoardLayout,
+  SetDirectionAction,
+  SpawnRules,
+  Vector,
+} from './types';
+import { createGameEngine, GameEngine } from './gameEngine';
+import { getGridLayout } from './gridUtils';
+import { DirectionName, DIRECTION_VECTORS, InputCommand } from './input';
+
+// bump whenever the shape of GameRecording changes
+export const RECORDING_VERSION = 2;
+
+/**
+ * Everything needed to play a game back. The game is seeded, so the actions alone are
+ * enough to reproduce it, the spawns are recorded too so that a replay can prove it
+ * hasn't diverged from the original game
+ */
+export type GameRecording = {
+  version: number;
+  seed: string;
+  layout: BoardLayout;
+  obstacleCount: number;
+  winValue: number;
+  spawnRules: SpawnRules;
+  // one character for each action the player took, see DIRECTION_CODES and below
+  actions: string;
+  // every block spawned after a move, in order, as [x, y, value]
+  spawns: [number, number, number][];
+};
+
+export type ReplayCommand = InputCommand | { type: 'KEEP_PLAYING' };
+
+const DIRECTION_CODES: Record<DirectionName, string> = {
+  up: 'u',
+  down: 'd',
+  left: 'l',
+  right: 'r',
+};
+const UNDO_CODE = 'z';
+const REDO_CODE = 'y';
+const KEEP_PLAYING_CODE = 'k';
+
+const getDirectionCode = ({ x, y }: Vector): string => {
+  const name = (Object.keys(DIRECTION_VECTORS) as DirectionName[]).find(
+    (direction) =>
+      DIRECTION_VECTORS[direction].x === x &&
+      DIRECTION_VECTORS[direction].y === y,
+  );
+
+  if (!name) {
+    throw Error(`Unable to record direction ${x},${y}`);
+  }
+
+  return DIRECTION_CODES[name];
+};
+
+export function getReplayCommands({ actions }: GameRecording): ReplayCommand[] {
+  return actions.split('').map((code) => {
+    const direction = (Object.keys(DIRECTION_CODES) as DirectionName[]).find(
+      (name) => DIRECTION_CODES[name] === code,
+    );
+
+    if (direction) {
+      return { type: 'MOVE', direction: DIRECTION_VECTORS[direction] };
+    }
+
+    switch (code) {
+      case UNDO_CODE:
+        return { type: 'UNDO' };
+      case REDO_CODE:
+        return { type: 'REDO' };
+      case KEEP_PLAYING_CODE:
+        return { type: 'KEEP_PLAYING' };
+      default:
+        throw Error(`Unexpected action '${code}' in recording`);
+    }
+  });
+}
+
+const makeEmptyRecording = (engine: GameEngine): GameRecording => {
+  const { seed, grid, obstacleCount, winValue, spawnRules } = engine.getState();
+
+  return {
+    version: RECORDING_VERSION,
+    seed,
+    layout: getGridLayout(grid),
+    obstacleCount,
+    winValue,
+    spawnRules,
+    actions: '',
+    spawns: [],
+  };
+};
+
+export type GameRecorder = {
+  // null if the start of the current game wasn't recorded
+  getRecording: () => GameRecording | null;
+  stop: () => void;
+};
+
+/**
+ * Records every action dispatched by the engine, starting afresh whenever the game is
+ * restarted. A resumed game can carry on from the recording of its earlier moves, or pass
+ * null if they weren't recorded, in which case nothing is recorded until the next game
+ */
+export function createGameRecorder(
+  engine: GameEngine,
+  recording: GameRecording | null = makeEmptyRecording(engine),
+): GameRecorder {
+  let current = recording;
+
+  const record = (action: string, spawn?: [number, number, number]) => {
+    if (!current) {
+      return;
+    }
+
+    current = {
+      ...current,
+      actions: current.actions + action,
+      spawns: spawn ? [...current.spawns, spawn] : current.spawns,
+    };
+  };
+
+  const stop = engine.on('action', (action) => {
+    switch (action.type) {
+      case 'SET_MOVED_DIRECTION':
+        record(getDirectionCode((action as SetDirectionAction).direction));
+        break;
+
+      case 'ADD_NEW_BLOCK': {
+        const { position, block } = action as AddNewBlockAction;
+
+        record('', [position.x, position.y, block.value]);
+        break;
+      }
+
+      case 'UNDO':
+        record(UNDO_CODE);
+        break;
+
+      case 'REDO':
+        record(REDO_CODE);
+        break;
+
+      case 'KEEP_PLAYING':
+        record(KEEP_PLAYING_CODE);
+        break;
+
+      case 'RESTART':
+        current = makeEmptyRecording(engine);
+        break;
+    }
+  });
+
+  return {
+    getRecording: () => current,
+    stop,
+  };
+}
+
+export const REPLAY_DIVERGED_ERROR = 'Replay has diverged from the recording';
+
+/**
+ * Creates an engine for the start of a recorded game, which checks every spawn against
+ * the recording. The first spawn which doesn't match is reported to onDiverge, as
+ * throwing would only throw from inside the engine's spawn event
+ */
+export function createReplayEngine(
+  recording: GameRecording,
+  waitForAnimations = false,
+  onDiverge: (error: string) => void = () => {},
+): GameEngine {
+  const { seed, layout, obstacleCount, winValue, spawnRules, spawns } =
+    recording;
+  const engine = createGameEngine({
+    layout,
+    seed,
+    obstacleCount,
+    winValue,
+    spawnRules,
+    waitForAnimations,
+  });
+  let spawnIndex = 0;
+  let hasDiverged = false;
+
+  engine.on('spawn', ({ position, block }) => {
+    const [x, y, value] = spawns[spawnIndex++] ?? [];
+
+    if (
+      !hasDiverged &&
+      (position.x !== x || position.y !== y || block.value !== value)
+    ) {
+      hasDiverged = true;
+      onDiverge(REPLAY_DIVERGED_ERROR);
+    }
+  });
+
+  return engine;
+}
+
+export function applyReplayCommand(
+  engine: GameEngine,
+  command: ReplayCommand,
+): boolean {
+  switch (command.type) {
+    case 'MOVE':
+      return engine.move(command.direction);
+    case 'UNDO':
+      return engine.undo();
+    case 'REDO':
+      return engine.redo();
+    case 'KEEP_PLAYING':
+      return engine.keepPlaying();
+  }
+}
+
+// plays a whole recording back without animations, throwing if it doesn't match
+export function replayRecording(recording: GameRecording): GameEngine {
+  let divergence: string | null = null;
+  const engine = createReplayEngine(recording, false, (error) => {
+    divergence = error;
+  });
+
+  getReplayCommands(recording).forEach((command) => {
+    if (!applyReplayCommand(engine, command)) {
+      throw Error(`Unable to replay ${command.type} in the current phase`);
+    }
+
+    if (divergence) {
+      throw Error(divergence);
+    }
+  });
+
+  return engine;
+}
+
+// base64 only covers latin1, so any other characters (in a seed) are UTF-8 encoded first
+const toBinaryString = (text: string) =>
+  encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16)),
+  );
+
+const fromBinaryString = (binary: string) =>
+  decodeURIComponent(
+    binary
+      .split('')
+      .map((char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+      .join(''),
+  );
+
+// a URL safe base64 string, so a replay can be shared as a link
+export function encodeRecording(recording: GameRecording): string {
+  return btoa(toBinaryString(JSON.stringify(recording)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Accepts either JSON or a URL safe string from encodeRecording. Throws if it isn't a
+ * recording this version of the game can play
+ */
+export function decodeRecording(text: string): GameRecording {
+  let recording: GameRecording;
+
+  try {
+    const trimmed = text.trim();
+
+    recording = JSON.parse(
+      trimmed.startsWith('{')
+        ? trimmed
+        : fromBinaryString(atob(trimmed.replace(/-/g, '+').replace(/_/g, '/'))),
+    );
+  } catch {
+    throw Error('Unable to decode recording');
+  }
+
+  if (recording?.version !== RECORDING_VERSION) {
+    throw Error(
+      `Unable to play a recording from version ${recording?.version}`,
+    );
+  }
+
+  if (
+    typeof recording.seed !== 'string' ||
+    !Array.isArray(recording.layout) ||
+    typeof recording.actions !== 'string' ||
+    !Array.isArray(recording.spawns)
+  ) {
+    throw Error('Unable to decode recording');
+  }
+
+  return recording;
+}
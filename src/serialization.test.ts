@@ -0,0 +1,118 @@
+import {
+  deserializeGameState,
+  GAME_STATE_VERSION,
+  serializeGameState,
+} from './serialization';
+import { initGameState } from './gameEngine';
+
+describe('serialization', () => {
+  it('round trips a game state through JSON', () => {
+    const state = initGameState({ size: 4, seed: 'round trip' });
+    const json = JSON.stringify(serializeGameState(state));
+
+    expect(JSON.parse(json).version).toEqual(GAME_STATE_VERSION);
+    expect(deserializeGameState(JSON.parse(json))).toEqual(state);
+  });
+
+  it('migrates a game state from before obstacles', () => {
+    const { obstacleCount, ...state } = initGameState({
+      size: 4,
+      seed: 'obstacles',
+    });
+    const legacyState = {
+      ...state,
+      grid: {
+        ...state.grid,
+        rows: state.grid.rows.map((row) =>
+          row.map(({ isObstacle, ...cell }) => cell),
+        ),
+      },
+    };
+
+    expect(deserializeGameState({ version: 2, state: legacyState })).toEqual({
+      ...state,
+      obstacleCount: 0,
+    });
+  });
+
+  it('migrates a game state from before board layouts', () => {
+    const state = initGameState({ size: 4, seed: 'layouts' });
+    const snapshot = {
+      grid: state.grid,
+      score: 0,
+      moveCount: 0,
+      randomState: state.randomState,
+    };
+    const { width, height, ...grid } = state.grid;
+    const legacyGrid = {
+      ...grid,
+      size: 4,
+      rows: grid.rows.map((row) => row.map(({ isMasked, ...cell }) => cell)),
+    };
+
+    expect(
+      deserializeGameState({
+        version: 3,
+        state: {
+          ...state,
+          grid: legacyGrid,
+          history: {
+            past: [{ ...snapshot, grid: legacyGrid }],
+            future: [],
+          },
+        },
+      }),
+    ).toEqual({
+      ...state,
+      history: {
+        past: [snapshot],
+        future: [],
+      },
+    });
+  });
+
+  it('rejects invalid, unversioned and newer game states', () => {
+    const state = initGameState({ size: 4, seed: 'invalid' });
+
+    expect(() => deserializeGameState(null)).toThrow();
+    expect(() => deserializeGameState(state)).toThrow();
+    expect(() => deserializeGameState({ version: 1, state: {} })).toThrow();
+    expect(() =>
+      deserializeGameState({ version: GAME_STATE_VERSION + 1, state }),
+    ).toThrow();
+  });
+
+  it('rejects game states which have been tampered with', () => {
+    const state = initGameState({ size: 4, seed: 'tampered' });
+    const [firstRow, ...rows] = state.grid.rows;
+    const tamperedStates = [
+      { ...state, score: 'lots' },
+      { ...state, bestScore: -1 },
+      { ...state, phase: 'CHEATING' },
+      { ...state, grid: { ...state.grid, width: 5 } },
+      { ...state, grid: { ...state.grid, rows } },
+      {
+        ...state,
+        grid: {
+          ...state.grid,
+          rows: [[{ ...firstRow[0], block: { id: 'a', value: '2' } }], ...rows],
+        },
+      },
+      { ...state, history: { past: [{ grid: state.grid }], future: [] } },
+      { ...state, spawnRules: { ...state.spawnRules, values: [] } },
+    ];
+
+    tamperedStates.forEach((tamperedState) =>
+      expect(() =>
+        deserializeGameState(
+          JSON.parse(
+            JSON.stringify({
+              version: GAME_STATE_VERSION,
+              state: tamperedState,
+            }),
+          ),
+        ),
+      ).toThrow(),
+    );
+  });
+});
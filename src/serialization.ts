@@ -0,0 +1,241 @@
+import {
+  Block,
+  Cell,
+  Grid,
+  HistorySnapshot,
+  Phase,
+  SpawnRules,
+  State,
+} from './types';
+
+// bump whenever the shape of State (or the Grid, Cell and Block types within it) changes,
+// and add a migration from the previous version below
+export const GAME_STATE_VERSION = 5;
+
+export type SerializedGameState = {
+  version: number;
+  state: State;
+};
+
+// a state as it was parsed from JSON, which is only trusted once it has been validated
+type UnknownRecord = Record<string, unknown>;
+type Migration = (state: UnknownRecord) => UnknownRecord;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Migrations run before validation, so anything which isn't the shape they expect is left
+// as it is for validation to reject
+const migrateGrids = (
+  state: UnknownRecord,
+  migrateGrid: (grid: UnknownRecord) => UnknownRecord,
+): UnknownRecord => {
+  const migrateSnapshot = (snapshot: unknown) =>
+    isRecord(snapshot) && isRecord(snapshot.grid)
+      ? { ...snapshot, grid: migrateGrid(snapshot.grid) }
+      : snapshot;
+  const { grid, history } = state;
+
+  return {
+    ...state,
+    grid: isRecord(grid) ? migrateGrid(grid) : grid,
+    history:
+      isRecord(history) &&
+      Array.isArray(history.past) &&
+      Array.isArray(history.future)
+        ? {
+            past: history.past.map(migrateSnapshot),
+            future: history.future.map(migrateSnapshot),
+          }
+        : history,
+  };
+};
+
+const migrateCells = (
+  grid: UnknownRecord,
+  migrateCell: (cell: UnknownRecord) => UnknownRecord,
+): UnknownRecord => ({
+  ...grid,
+  rows: Array.isArray(grid.rows)
+    ? grid.rows.map((row: unknown) =>
+        Array.isArray(row)
+          ? row.map((cell: unknown) =>
+              isRecord(cell) ? migrateCell(cell) : cell,
+            )
+          : row,
+      )
+    : grid.rows,
+});
+
+// each migration upgrades a state from the version it's keyed by to the next version
+const MIGRATIONS: Record<number, Migration> = {
+  // version 1 always started with, and spawned, a single 2
+  1: (state) => ({
+    spawnRules: {
+      values: [{ value: 2, weight: 1 }],
+      spawnCount: 1,
+      startCount: 1,
+    },
+    ...state,
+  }),
+  // version 2 had no obstacles
+  2: (state) => ({
+    obstacleCount: 0,
+    ...migrateGrids(state, (grid) =>
+      migrateCells(grid, (cell) => ({ isObstacle: false, ...cell })),
+    ),
+  }),
+  // version 3 boards were always a size × size square, without any holes
+  3: (state) =>
+    migrateGrids(state, ({ size, ...grid }) =>
+      migrateCells({ width: size, height: size, ...grid }, (cell) => ({
+        isMasked: false,
+        ...cell,
+      })),
+    ),
+  // version 4 reused block ids when a seeded game was restarted
+  4: (state) => ({
+    gameNumber: 0,
+    ...state,
+  }),
+};
+
+const PHASES: Record<Phase, true> = {
+  INIT: true,
+  INPUT: true,
+  ACTIVE: true,
+  REVERT: true,
+  TEST_WON: true,
+  WON: true,
+  SPAWN: true,
+  TEST_GAME_OVER: true,
+  GAME_OVER: true,
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  isCount(value) && value > 0;
+
+const isBlock = (value: unknown): value is Block =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isPositiveInteger(value.value) &&
+  typeof value.isNew === 'boolean';
+
+const isCell = (value: unknown): value is Cell =>
+  isRecord(value) &&
+  (value.block === null || isBlock(value.block)) &&
+  (value.mergedBlock === null || isBlock(value.mergedBlock)) &&
+  typeof value.isObstacle === 'boolean' &&
+  typeof value.isMasked === 'boolean';
+
+// every row has to be as wide as the grid says, or the engine reads past the end of it
+const isGrid = (value: unknown): value is Grid =>
+  isRecord(value) &&
+  isPositiveInteger(value.width) &&
+  isPositiveInteger(value.height) &&
+  Array.isArray(value.rows) &&
+  value.rows.length === value.height &&
+  value.rows.every(
+    (row: unknown) =>
+      Array.isArray(row) && row.length === value.width && row.every(isCell),
+  );
+
+// undo and redo swap the whole grid, so every snapshot has to be the same size
+const isHistorySnapshot = (
+  value: unknown,
+  { width, height }: Grid,
+): value is HistorySnapshot =>
+  isRecord(value) &&
+  isGrid(value.grid) &&
+  value.grid.width === width &&
+  value.grid.height === height &&
+  isCount(value.score) &&
+  isCount(value.moveCount) &&
+  isCount(value.randomState);
+
+const isSpawnRules = (value: unknown): value is SpawnRules =>
+  isRecord(value) &&
+  Array.isArray(value.values) &&
+  value.values.length > 0 &&
+  value.values.every(
+    (spawnValue: unknown) =>
+      isRecord(spawnValue) &&
+      isPositiveInteger(spawnValue.value) &&
+      typeof spawnValue.weight === 'number' &&
+      spawnValue.weight > 0,
+  ) &&
+  isCount(value.spawnCount) &&
+  isCount(value.startCount);
+
+// checks everything the engine reads, so that a corrupt or edited save is rejected up front
+const isState = (value: unknown): value is State => {
+  if (!isRecord(value) || !isGrid(value.grid)) {
+    return false;
+  }
+
+  const { grid, history } = value;
+
+  return (
+    typeof value.phase === 'string' &&
+    Object.keys(PHASES).includes(value.phase) &&
+    isCount(value.score) &&
+    isCount(value.bestScore) &&
+    isCount(value.moveCount) &&
+    isRecord(history) &&
+    Array.isArray(history.past) &&
+    Array.isArray(history.future) &&
+    [...history.past, ...history.future].every((snapshot: unknown) =>
+      isHistorySnapshot(snapshot, grid),
+    ) &&
+    typeof value.seed === 'string' &&
+    isCount(value.randomState) &&
+    isPositiveInteger(value.winValue) &&
+    isSpawnRules(value.spawnRules) &&
+    isCount(value.obstacleCount) &&
+    typeof value.keepPlaying === 'boolean' &&
+    isCount(value.gameNumber)
+  );
+};
+
+export function serializeGameState(state: State): SerializedGameState {
+  return {
+    version: GAME_STATE_VERSION,
+    state,
+  };
+}
+
+/**
+ * Accepts anything parsed from JSON, so that states saved by any previous version of the
+ * game can be migrated forward. Throws if the data can't be turned into a valid state
+ */
+export function deserializeGameState(data: unknown): State {
+  if (
+    !isRecord(data) ||
+    !isPositiveInteger(data.version) ||
+    !isRecord(data.state)
+  ) {
+    throw Error('Unable to deserialize game state');
+  }
+
+  let version = data.version;
+  let state = data.state;
+
+  if (version > GAME_STATE_VERSION) {
+    throw Error(
+      `Unable to deserialize game state from newer version ${version}`,
+    );
+  }
+
+  for (; version < GAME_STATE_VERSION; ++version) {
+    state = MIGRATIONS[version](state);
+  }
+
+  if (!isState(state)) {
+    throw Error('Unable to deserialize game state');
+  }
+
+  return state;
+}
@@ -0,0 +1,56 @@
+import {
+  DEFAULT_SETTINGS,
+  getSettingsLayout,
+  sanitizeSettings,
+} from './settings';
+
+describe('settings', () => {
+  it('keeps valid settings', () => {
+    const settings = {
+      gridSize: 10,
+      boardShape: 'donut',
+      winValue: 512,
+      spawnRules: 'twos',
+      theme: 'dark',
+      bumpAnimation: false,
+      inputQueueDepth: 0,
+      queuedAnimations: 'skip',
+      animationSpeed: 2,
+      instantAnimations: true,
+    };
+
+    expect(sanitizeSettings(settings)).toEqual(settings);
+  });
+
+  it('replaces invalid settings with their defaults', () => {
+    expect(sanitizeSettings(null)).toEqual(DEFAULT_SETTINGS);
+    expect(
+      sanitizeSettings({
+        gridSize: 11,
+        boardShape: 'toString',
+        winValue: 100,
+        spawnRules: 'none',
+        theme: 'neon',
+        bumpAnimation: 'yes',
+        inputQueueDepth: 10,
+        queuedAnimations: 'slow',
+        animationSpeed: 0,
+        instantAnimations: 1,
+      }),
+    ).toEqual(DEFAULT_SETTINGS);
+    expect(sanitizeSettings({ gridSize: 2.5 }).gridSize).toEqual(
+      DEFAULT_SETTINGS.gridSize,
+    );
+  });
+
+  it('makes a board layout from the settings', () => {
+    expect(getSettingsLayout({ gridSize: 3, boardShape: 'square' })).toEqual([
+      '###',
+      '###',
+      '###',
+    ]);
+    expect(
+      getSettingsLayout({ gridSize: 3, boardShape: 'cross' }),
+    ).toHaveLength(6);
+  });
+});
@@ -0,0 +1,157 @@
+import { BoardLayout, SpawnRules } from './types';
+import {
+  DEFAULT_SPAWN_RULES,
+  DEFAULT_WIN_VALUE,
+  GRID_SIZE,
+  MAX_GRID_SIZE,
+  MIN_GRID_SIZE,
+} from './consts';
+import {
+  BoardLayoutPresetName,
+  BOARD_LAYOUT_PRESETS,
+  makeRectangleLayout,
+} from './boardLayouts';
+import { ThemeName, THEMES } from './themes';
+
+export type SpawnRulesPresetName = 'classic' | 'twos' | 'generous';
+
+export const SPAWN_RULES_PRESETS: Record<SpawnRulesPresetName, SpawnRules> = {
+  classic: DEFAULT_SPAWN_RULES,
+  // only ever 2s, like the earliest versions of this game
+  twos: {
+    values: [{ value: 2, weight: 1 }],
+    spawnCount: 1,
+    startCount: 2,
+  },
+  // more 4s and the occasional 8
+  generous: {
+    values: [
+      { value: 2, weight: 6 },
+      { value: 4, weight: 3 },
+      { value: 8, weight: 1 },
+    ],
+    spawnCount: 1,
+    startCount: 2,
+  },
+};
+
+export const WIN_VALUE_OPTIONS = [256, 512, 1024, 2048, 4096, 8192, 16384];
+
+export const INPUT_QUEUE_DEPTH_OPTIONS = [0, 1, 2, 3, 4];
+
+export type QueuedAnimations = 'play' | 'speedUp' | 'skip';
+
+// how much faster animations play whilst there are moves queued up behind them, skipping
+// just plays them so fast that they finish on the next frame, so every phase still ends
+export const QUEUED_ANIMATION_TIME_SCALES: Record<QueuedAnimations, number> = {
+  play: 1,
+  speedUp: 3,
+  skip: 100,
+};
+
+// multiplies the speed of every animation
+export const ANIMATION_SPEED_OPTIONS = [0.5, 1, 1.5, 2, 3];
+
+export type BoardShape = 'square' | BoardLayoutPresetName;
+
+export type GameSettings = {
+  // the width and height of a square board
+  gridSize: number;
+  boardShape: BoardShape;
+  winValue: number;
+  spawnRules: SpawnRulesPresetName;
+  theme: ThemeName;
+  // shake the board when a move changes nothing
+  bumpAnimation: boolean;
+  // how many moves made during animations are kept to play afterwards, 0 drops them
+  inputQueueDepth: number;
+  queuedAnimations: QueuedAnimations;
+  animationSpeed: number;
+  // shows every move straight away, without animating it
+  instantAnimations: boolean;
+};
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  gridSize: GRID_SIZE,
+  boardShape: 'square',
+  winValue: DEFAULT_WIN_VALUE,
+  spawnRules: 'classic',
+  theme: 'classic',
+  bumpAnimation: true,
+  inputQueueDepth: 2,
+  queuedAnimations: 'speedUp',
+  animationSpeed: 1,
+  instantAnimations: false,
+};
+
+const isOneOf = <T extends string>(
+  value: unknown,
+  options: Record<T, unknown>,
+): value is T => Object.keys(options).includes(value as string);
+
+/**
+ * Settings are loaded from storage, so they may have been saved by an older version of
+ * the game or edited by hand. Anything invalid falls back to its default
+ */
+export function sanitizeSettings(data: unknown): GameSettings {
+  const settings = (data ?? {}) as Partial<GameSettings>;
+  const {
+    gridSize,
+    boardShape,
+    winValue,
+    spawnRules,
+    theme,
+    bumpAnimation,
+    inputQueueDepth,
+    queuedAnimations,
+    animationSpeed,
+    instantAnimations,
+  } = settings;
+
+  return {
+    gridSize:
+      Number.isInteger(gridSize) &&
+      (gridSize as number) >= MIN_GRID_SIZE &&
+      (gridSize as number) <= MAX_GRID_SIZE
+        ? (gridSize as number)
+        : DEFAULT_SETTINGS.gridSize,
+    boardShape:
+      boardShape === 'square' || isOneOf(boardShape, BOARD_LAYOUT_PRESETS)
+        ? boardShape
+        : DEFAULT_SETTINGS.boardShape,
+    winValue: WIN_VALUE_OPTIONS.includes(winValue as number)
+      ? (winValue as number)
+      : DEFAULT_SETTINGS.winValue,
+    spawnRules: isOneOf(spawnRules, SPAWN_RULES_PRESETS)
+      ? spawnRules
+      : DEFAULT_SETTINGS.spawnRules,
+    theme: isOneOf(theme, THEMES) ? theme : DEFAULT_SETTINGS.theme,
+    bumpAnimation:
+      typeof bumpAnimation === 'boolean'
+        ? bumpAnimation
+        : DEFAULT_SETTINGS.bumpAnimation,
+    inputQueueDepth: INPUT_QUEUE_DEPTH_OPTIONS.includes(
+      inputQueueDepth as number,
+    )
+      ? (inputQueueDepth as number)
+      : DEFAULT_SETTINGS.inputQueueDepth,
+    queuedAnimations: isOneOf(queuedAnimations, QUEUED_ANIMATION_TIME_SCALES)
+      ? queuedAnimations
+      : DEFAULT_SETTINGS.queuedAnimations,
+    animationSpeed: ANIMATION_SPEED_OPTIONS.includes(animationSpeed as number)
+      ? (animationSpeed as number)
+      : DEFAULT_SETTINGS.animationSpeed,
+    instantAnimations:
+      typeof instantAnimations === 'boolean'
+        ? instantAnimations
+        : DEFAULT_SETTINGS.instantAnimations,
+  };
+}
+
+export const getSettingsLayout = ({
+  gridSize,
+  boardShape,
+}: Pick<GameSettings, 'gridSize' | 'boardShape'>): BoardLayout =>
+  boardShape === 'square'
+    ? makeRectangleLayout(gridSize)
+    : BOARD_LAYOUT_PRESETS[boardShape];
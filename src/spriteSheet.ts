@@ -0,0 +1,37 @@
+import sheetData from './2048-sheet.json';
+
+// the parts of a TexturePacker JSON hash which are used to find each value's frame
+export type SpriteSheetData = {
+  frames: Record<
+    string,
+    { frame: { x: number; y: number; w: number; h: number } }
+  >;
+  meta: { size: { w: number; h: number } };
+};
+
+export type UvRange = {
+  uMin: number;
+  uMax: number;
+  vMin: number;
+  vMax: number;
+};
+
+export const SPRITE_SHEET: SpriteSheetData = sheetData;
+
+export function getFrameUvRange(
+  sheet: SpriteSheetData,
+  value: number,
+): UvRange {
+  const { frame } = sheet.frames[value];
+  const { w: sheetWidth, h: sheetHeight } = sheet.meta.size;
+  const uMin = frame.x / sheetWidth;
+  // v direction is inverted:
+  const vMax = 1 - frame.y / sheetHeight;
+
+  return {
+    uMin,
+    uMax: uMin + frame.w / sheetWidth,
+    vMin: vMax - frame.h / sheetHeight,
+    vMax,
+  };
+}
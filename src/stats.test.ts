@@ -0,0 +1,91 @@
+import {
+  addGameResult,
+  EMPTY_STATS,
+  GameResult,
+  getStatsSummary,
+  sanitizeStats,
+  statsToCsv,
+} from './stats';
+
+const makeResult = (overrides: Partial<GameResult> = {}): GameResult => ({
+  score: 1000,
+  moveCount: 100,
+  maxBlockValue: 128,
+  won: false,
+  finishedAt: Date.UTC(2024, 0, 1),
+  ...overrides,
+});
+
+describe('stats', () => {
+  it('summarises every finished game', () => {
+    const stats = [
+      makeResult({ score: 1000, moveCount: 100, maxBlockValue: 128 }),
+      makeResult({ score: 3000, moveCount: 300, maxBlockValue: 256 }),
+      makeResult({ score: 2000, moveCount: 200, maxBlockValue: 128 }),
+      makeResult({
+        score: 22000,
+        moveCount: 1000,
+        maxBlockValue: 2048,
+        won: true,
+      }),
+    ].reduce((current, result) => addGameResult(current, result), EMPTY_STATS);
+
+    expect(getStatsSummary(stats)).toEqual({
+      gamesPlayed: 4,
+      winRate: 0.25,
+      highestBlockValue: 2048,
+      averageScore: 7000,
+      averageMoveCount: 400,
+      maxBlockValueCounts: [
+        { value: 128, count: 2 },
+        { value: 256, count: 1 },
+        { value: 2048, count: 1 },
+      ],
+    });
+  });
+
+  it('summarises no games without dividing by zero', () => {
+    expect(getStatsSummary(EMPTY_STATS)).toEqual({
+      gamesPlayed: 0,
+      winRate: 0,
+      highestBlockValue: 0,
+      averageScore: 0,
+      averageMoveCount: 0,
+      maxBlockValueCounts: [],
+    });
+  });
+
+  it('replaces a won game with its final result when it carries on', () => {
+    const won = addGameResult(
+      EMPTY_STATS,
+      makeResult({ maxBlockValue: 2048, won: true }),
+    );
+    const lost = addGameResult(
+      won,
+      makeResult({ score: 30000, maxBlockValue: 4096 }),
+      true,
+    );
+
+    expect(lost.games).toEqual([
+      makeResult({ score: 30000, maxBlockValue: 4096, won: true }),
+    ]);
+  });
+
+  it('drops stored games it does not understand', () => {
+    expect(sanitizeStats(null)).toEqual(EMPTY_STATS);
+    expect(sanitizeStats({ games: [makeResult(), { score: 'lots' }] })).toEqual(
+      { games: [makeResult()] },
+    );
+  });
+
+  it('exports one row per game as CSV', () => {
+    const stats = addGameResult(EMPTY_STATS, makeResult({ won: true }));
+
+    expect(statsToCsv(stats)).toEqual(
+      [
+        'finished_at,score,moves,max_tile,won',
+        '2024-01-01T00:00:00.000Z,1000,100,128,true',
+      ].join('\n'),
+    );
+  });
+});
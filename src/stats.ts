@@ -0,0 +1,132 @@
+import { State } from './types';
+import { getMaxBlockValue } from './gridUtils';
+
+export type GameResult = {
+  score: number;
+  moveCount: number;
+  maxBlockValue: number;
+  won: boolean;
+  // when the game finished, in milliseconds since the epoch
+  finishedAt: number;
+};
+
+// every finished game is kept, so all of the stats can be derived and exported from them
+export type GameStats = {
+  games: GameResult[];
+};
+
+export type StatsSummary = {
+  gamesPlayed: number;
+  // between 0 and 1
+  winRate: number;
+  highestBlockValue: number;
+  averageScore: number;
+  averageMoveCount: number;
+  // how many games finished with each max block value, in ascending order of value
+  maxBlockValueCounts: { value: number; count: number }[];
+};
+
+export const EMPTY_STATS: GameStats = {
+  games: [],
+};
+
+export function getGameResult(
+  { score, moveCount, grid }: State,
+  won: boolean,
+  finishedAt = Date.now(),
+): GameResult {
+  return {
+    score,
+    moveCount,
+    maxBlockValue: getMaxBlockValue(grid),
+    won,
+    finishedAt,
+  };
+}
+
+/**
+ * A game which is won and then carried on with finishes twice, so its final result
+ * replaces the one recorded when it was won rather than counting as another game
+ */
+export function addGameResult(
+  { games }: GameStats,
+  result: GameResult,
+  continuesLastGame = false,
+): GameStats {
+  const lastGame = games[games.length - 1];
+
+  if (continuesLastGame && lastGame?.won) {
+    return {
+      games: [...games.slice(0, -1), { ...result, won: true }],
+    };
+  }
+
+  return {
+    games: [...games, result],
+  };
+}
+
+const average = (values: number[]) =>
+  values.length
+    ? values.reduce((total, value) => total + value, 0) / values.length
+    : 0;
+
+export function getStatsSummary({ games }: GameStats): StatsSummary {
+  const counts = new Map<number, number>();
+
+  games.forEach(({ maxBlockValue }) =>
+    counts.set(maxBlockValue, (counts.get(maxBlockValue) ?? 0) + 1),
+  );
+
+  return {
+    gamesPlayed: games.length,
+    winRate: games.length
+      ? games.filter(({ won }) => won).length / games.length
+      : 0,
+    highestBlockValue: Math.max(
+      0,
+      ...games.map(({ maxBlockValue }) => maxBlockValue),
+    ),
+    averageScore: average(games.map(({ score }) => score)),
+    averageMoveCount: average(games.map(({ moveCount }) => moveCount)),
+    maxBlockValueCounts: Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => a.value - b.value),
+  };
+}
+
+// stored stats are only ever written by the game, but may be from an older version of it
+export function sanitizeStats(data: unknown): GameStats {
+  const games = (data as Partial<GameStats> | null)?.games;
+
+  if (!Array.isArray(games)) {
+    return EMPTY_STATS;
+  }
+
+  return {
+    games: games.filter(
+      (game: Partial<GameResult> | null) =>
+        typeof game?.score === 'number' &&
+        typeof game.moveCount === 'number' &&
+        typeof game.maxBlockValue === 'number' &&
+        typeof game.won === 'boolean' &&
+        typeof game.finishedAt === 'number',
+    ),
+  };
+}
+
+// one row per game, oldest first
+export function statsToCsv({ games }: GameStats): string {
+  return [
+    'finished_at,score,moves,max_tile,won',
+    ...games.map(({ finishedAt, score, moveCount, maxBlockValue, won }) =>
+      [
+        new Date(finishedAt).toISOString(),
+        score,
+        moveCount,
+        maxBlockValue,
+        won,
+      ].join(','),
+    ),
+  ].join('\n');
+}
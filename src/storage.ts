@@ -0,0 +1,20 @@
+// localStorage can be unavailable (private browsing, disabled cookies) or full, so
+// persistence is always best effort and never allowed to break the game
+
+export function loadFromStorage<T>(key: string, fallback: T): T {
+  try {
+    const item = window.localStorage.getItem(key);
+
+    return item === null ? fallback : (JSON.parse(item) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveToStorage<T>(key: string, value: T) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // ignore quota and security errors
+  }
+}
@@ -0,0 +1,47 @@
+import { getTextureAtlasValues, layoutTextureAtlas } from './textureAtlas';
+import { getFrameUvRange, SPRITE_SHEET } from './spriteSheet';
+
+describe('textureAtlas', () => {
+  it('lays values out in a square grid of frames', () => {
+    const sheet = layoutTextureAtlas([2, 4, 8, 16, 32], { frameSize: 100 });
+
+    expect(sheet.frames[2].frame).toEqual({ x: 0, y: 0, w: 100, h: 100 });
+    expect(sheet.frames[8].frame).toEqual({ x: 200, y: 0, w: 100, h: 100 });
+    expect(sheet.frames[16].frame).toEqual({ x: 0, y: 100, w: 100, h: 100 });
+    // 300 × 200 rounded up to powers of 2
+    expect(sheet.meta.size).toEqual({ w: 512, h: 256 });
+  });
+
+  it('describes frames in the same shape as the prebuilt sheet', () => {
+    const sheet = layoutTextureAtlas(
+      Object.keys(SPRITE_SHEET.frames).map(Number),
+      { frameSize: 256 },
+    );
+
+    // 5 × 4 frames of 256px in a 2048 × 1024 atlas
+    expect(getFrameUvRange(sheet, 1)).toEqual({
+      uMin: 0,
+      uMax: 0.125,
+      vMin: 0.75,
+      vMax: 1,
+    });
+    expect(getFrameUvRange(sheet, 2048)).toEqual({
+      uMin: 0.125,
+      uMax: 0.25,
+      vMin: 0.25,
+      vMax: 0.5,
+    });
+  });
+
+  it('covers every power of 2 up to the largest value', () => {
+    expect(getTextureAtlasValues([262144, 24])).toEqual([
+      1, 2, 4, 8, 16, 24, 32, 64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384,
+      32768, 65536, 131072, 262144,
+    ]);
+    expect(getTextureAtlasValues([])).toEqual([1]);
+  });
+
+  it('needs at least one value', () => {
+    expect(() => layoutTextureAtlas([], { frameSize: 256 })).toThrow();
+  });
+});
@@ -0,0 +1,126 @@
+import { SpriteSheetData } from './spriteSheet';
+
+export type TextureAtlasOptions = {
+  fontFamily: string;
+  fontWeight: string;
+  // the largest font size in pixels, long numbers are shrunk to fit their frame
+  fontSize: number;
+  // the width and height of each frame in pixels
+  frameSize: number;
+  // the space in pixels between the number and the edge of its frame
+  padding: number;
+};
+
+// close to the hand made sheet, which uses the same 256px frames
+export const DEFAULT_TEXTURE_ATLAS_OPTIONS: TextureAtlasOptions = {
+  fontFamily: '"Clear Sans", "Helvetica Neue", Arial, sans-serif',
+  fontWeight: 'bold',
+  fontSize: 96,
+  frameSize: 256,
+  padding: 24,
+};
+
+const nextPowerOfTwo = (value: number) => 2 ** Math.ceil(Math.log2(value));
+
+/**
+ * Lays the values out in a roughly square grid of frames, in the same shape as the
+ * TexturePacker JSON for the prebuilt sheet. The atlas is sized to powers of 2 so that it
+ * can be mipmapped
+ */
+export function layoutTextureAtlas(
+  values: number[],
+  { frameSize }: Pick<TextureAtlasOptions, 'frameSize'>,
+): SpriteSheetData {
+  if (!values.length) {
+    throw Error('A texture atlas needs at least one value');
+  }
+
+  const columns = Math.ceil(Math.sqrt(values.length));
+  const rows = Math.ceil(values.length / columns);
+
+  return {
+    frames: values.reduce(
+      (frames, value, index) => ({
+        ...frames,
+        [value]: {
+          frame: {
+            x: (index % columns) * frameSize,
+            y: Math.floor(index / columns) * frameSize,
+            w: frameSize,
+            h: frameSize,
+          },
+        },
+      }),
+      {} as SpriteSheetData['frames'],
+    ),
+    meta: {
+      size: {
+        w: nextPowerOfTwo(columns * frameSize),
+        h: nextPowerOfTwo(rows * frameSize),
+      },
+    },
+  };
+}
+
+/**
+ * Draws each value in white, which the box shader tints with the value's font color, onto
+ * a transparent canvas laid out by layoutTextureAtlas
+ */
+export function drawTextureAtlas(
+  values: number[],
+  options: TextureAtlasOptions = DEFAULT_TEXTURE_ATLAS_OPTIONS,
+): { canvas: HTMLCanvasElement; sheet: SpriteSheetData } {
+  const { fontFamily, fontWeight, fontSize, frameSize, padding } = options;
+  const sheet = layoutTextureAtlas(values, options);
+  const canvas = document.createElement('canvas');
+
+  canvas.width = sheet.meta.size.w;
+  canvas.height = sheet.meta.size.h;
+
+  const context = canvas.getContext('2d');
+
+  if (!context) {
+    throw Error('Unable to draw a texture atlas without a 2d canvas context');
+  }
+
+  const maxTextWidth = frameSize - padding * 2;
+
+  context.fillStyle = '#ffffff';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+
+  values.forEach((value) => {
+    const { x, y } = sheet.frames[value].frame;
+    const text = String(value);
+
+    context.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+
+    const width = context.measureText(text).width;
+    const fittedSize =
+      width > maxTextWidth
+        ? Math.floor((fontSize * maxTextWidth) / width)
+        : fontSize;
+
+    context.font = `${fontWeight} ${fittedSize}px ${fontFamily}`;
+    context.fillText(text, x + frameSize / 2, y + frameSize / 2);
+  });
+
+  return { canvas, sheet };
+}
+
+/**
+ * Every power of 2 up to the largest value, plus any other values, so that the atlas
+ * rarely needs redrawing as a game goes on
+ */
+export function getTextureAtlasValues(values: number[]): number[] {
+  const maxValue = Math.max(1, ...values);
+  const result = new Set<number>();
+
+  for (let value = 1; value <= maxValue; value *= 2) {
+    result.add(value);
+  }
+
+  values.forEach((value) => result.add(value));
+
+  return Array.from(result).sort((a, b) => a - b);
+}
@@ -0,0 +1,75 @@
+import { getBoxColors, ThemeName, THEMES } from './themes';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/;
+// the color of the 1, 2 and 4 baked into the prebuilt sheet, which the font color multiplies
+const SHEET_DARK_DIGIT = '#776e65';
+
+const getChannels = (hex: string) =>
+  [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+
+// the WCAG relative luminance of an sRGB color
+const getLuminance = (channels: number[]) => {
+  const [r, g, b] = channels.map((c) =>
+    c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4,
+  );
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+describe('themes', () => {
+  it('colors every value up to 2048 in every theme', () => {
+    (Object.keys(THEMES) as ThemeName[]).forEach((name) => {
+      for (let value = 2; value <= 2048; value *= 2) {
+        expect(THEMES[name].boxColors).toHaveProperty(`${value}`);
+      }
+    });
+  });
+
+  it('colors the board in every theme', () => {
+    (Object.keys(THEMES) as ThemeName[]).forEach((name) => {
+      const { slab, slot, obstacle } = THEMES[name].board;
+
+      expect(slab).toMatch(HEX_COLOR);
+      expect(slot).toMatch(HEX_COLOR);
+      expect(obstacle).toMatch(HEX_COLOR);
+      expect(slot).not.toEqual(slab);
+      expect(obstacle).not.toEqual(slab);
+    });
+  });
+
+  it('keeps the dark digits of the prebuilt sheet readable in every theme', () => {
+    (Object.keys(THEMES) as ThemeName[]).forEach((name) => {
+      [1, 2, 4].forEach((value) => {
+        const { color, background } = THEMES[name].boxColors[value];
+        const digit = getChannels(SHEET_DARK_DIGIT).map(
+          (channel, i) => channel * getChannels(color)[i],
+        );
+        const [lighter, darker] = [
+          getLuminance(getChannels(background)),
+          getLuminance(digit),
+        ].sort((a, b) => b - a);
+
+        expect((lighter + 0.05) / (darker + 0.05)).toBeGreaterThanOrEqual(4.5);
+      });
+    });
+  });
+
+  it('uses the listed colors where there are some', () => {
+    expect(getBoxColors(THEMES.classic, 2048)).toEqual({
+      color: '#f9f6f2',
+      background: '#edc22e',
+    });
+  });
+
+  it('generates distinct colors for unlisted values', () => {
+    (Object.keys(THEMES) as ThemeName[]).forEach((name) => {
+      const theme = THEMES[name];
+      const first = getBoxColors(theme, 2 ** 18);
+      const second = getBoxColors(theme, 2 ** 19);
+
+      expect(first.background).toMatch(HEX_COLOR);
+      expect(first.color).toMatch(HEX_COLOR);
+      expect(second.background).not.toEqual(first.background);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { Color } from 'three';
+
+import { BOX_COLORS, OBSTACLE_COLOR } from './consts';
+
+export type ThemeName = 'classic' | 'dark' | 'highContrast' | 'colorblind';
+
+export type BoxColors = {
+  // the number
+  color: string;
+  background: string;
+};
+
+export type ThemeLights = {
+  ambient: { color: string; intensity: number };
+  point: {
+    color: string;
+    intensity: number;
+    position: [number, number, number];
+  };
+};
+
+export type Theme = {
+  label: string;
+  // the scene behind the board
+  background: string;
+  boxColors: Record<number, BoxColors>;
+  // Values without their own colors step around the color wheel, a full turn every
+  // 360 / hueStep doublings, so that each one is still different from its neighbours
+  fallbackBoxColors: {
+    hue: number;
+    hueStep: number;
+    saturation: number;
+    lightness: number;
+    color: string;
+  };
+  lights: ThemeLights;
+  // the slab behind the boxes, the empty slots sunk into it and the obstacles sat on it
+  board: { slab: string; slot: string; obstacle: string };
+};
+
+const DEFAULT_LIGHTS: ThemeLights = {
+  ambient: { color: '#ffffff', intensity: 1 },
+  point: { color: '#ffffff', intensity: 1, position: [-3, 3, 10] },
+};
+
+export const THEMES: Record<ThemeName, Theme> = {
+  classic: {
+    label: 'Classic',
+    background: '#faf8ef',
+    boxColors: BOX_COLORS,
+    fallbackBoxColors: {
+      hue: 280,
+      hueStep: 40,
+      saturation: 0.45,
+      lightness: 0.35,
+      color: '#f9f6f2',
+    },
+    lights: DEFAULT_LIGHTS,
+    board: { slab: '#bbada0', slot: '#cdc1b4', obstacle: OBSTACLE_COLOR },
+  },
+  dark: {
+    label: 'Dark',
+    background: '#1f1d1a',
+    // the prebuilt sheet's 1, 2 and 4 are dark, and the font color can only darken them
+    // further, so those boxes stay light enough to read them on
+    boxColors: {
+      1: { color: '#1f1d1a', background: '#b5aa9d' },
+      2: { color: '#1f1d1a', background: '#b5aa9d' },
+      4: { color: '#1f1d1a', background: '#bca884' },
+      8: { color: '#f9f6f2', background: '#8c5a2b' },
+      16: { color: '#f9f6f2', background: '#9c4f2c' },
+      32: { color: '#f9f6f2', background: '#a2402c' },
+      64: { color: '#f9f6f2', background: '#a8321c' },
+      128: { color: '#f9f6f2', background: '#9e8630' },
+      256: { color: '#f9f6f2', background: '#a08428' },
+      512: { color: '#f9f6f2', background: '#a2821f' },
+      1024: { color: '#f9f6f2', background: '#a57f16' },
+      2048: { color: '#f9f6f2', background: '#a87c0c' },
+    },
+    fallbackBoxColors: {
+      hue: 200,
+      hueStep: 40,
+      saturation: 0.4,
+      lightness: 0.3,
+      color: '#f9f6f2',
+    },
+    lights: {
+      ambient: { color: '#ffffff', intensity: 0.6 },
+      point: { color: '#ffe8c8', intensity: 0.8, position: [-3, 3, 10] },
+    },
+    board: { slab: '#2d2a26', slot: '#252320', obstacle: '#6b635b' },
+  },
+  highContrast: {
+    label: 'High contrast',
+    background: '#000000',
+    boxColors: {
+      1: { color: '#000000', background: '#ffffff' },
+      2: { color: '#000000', background: '#ffffff' },
+      4: { color: '#000000', background: '#ffff00' },
+      8: { color: '#000000', background: '#00ffff' },
+      16: { color: '#000000', background: '#00ff00' },
+      32: { color: '#000000', background: '#ff00ff' },
+      64: { color: '#ffffff', background: '#ff0000' },
+      128: { color: '#ffffff', background: '#0000ff' },
+      256: { color: '#000000', background: '#ff8000' },
+      512: { color: '#ffffff', background: '#8000ff' },
+      1024: { color: '#ffffff', background: '#008000' },
+      2048: { color: '#000000', background: '#ffd700' },
+    },
+    fallbackBoxColors: {
+      hue: 0,
+      hueStep: 60,
+      saturation: 1,
+      lightness: 0.3,
+      color: '#ffffff',
+    },
+    // flat lighting keeps the colors as close to their full strength as possible
+    lights: {
+      ambient: { color: '#ffffff', intensity: 1.2 },
+      point: { color: '#ffffff', intensity: 0.4, position: [-3, 3, 10] },
+    },
+    board: { slab: '#595959', slot: '#1a1a1a', obstacle: '#a6a6a6' },
+  },
+  colorblind: {
+    label: 'Colorblind safe',
+    background: '#faf8ef',
+    // based on the Okabe-Ito palette, which stays distinct with every common kind of
+    // color blindness
+    boxColors: {
+      1: { color: '#222222', background: '#f0f0f0' },
+      2: { color: '#222222', background: '#f0f0f0' },
+      4: { color: '#222222', background: '#f0e442' },
+      8: { color: '#222222', background: '#e69f00' },
+      16: { color: '#222222', background: '#56b4e9' },
+      32: { color: '#ffffff', background: '#009e73' },
+      64: { color: '#ffffff', background: '#0072b2' },
+      128: { color: '#ffffff', background: '#d55e00' },
+      256: { color: '#222222', background: '#cc79a7' },
+      512: { color: '#222222', background: '#999999' },
+      1024: { color: '#ffffff', background: '#555555' },
+      2048: { color: '#f0e442', background: '#000000' },
+    },
+    // alternating between blue and orange, which stay apart with every kind too
+    fallbackBoxColors: {
+      hue: 210,
+      hueStep: 180,
+      saturation: 0.8,
+      lightness: 0.35,
+      color: '#ffffff',
+    },
+    lights: DEFAULT_LIGHTS,
+    board: { slab: '#b0b0b0', slot: '#d6d6d6', obstacle: '#5c5c5c' },
+  },
+};
+
+const fallbackColor = new Color();
+
+export function getBoxColors(theme: Theme, value: number): BoxColors {
+  const listed = theme.boxColors[value];
+
+  if (listed) {
+    return listed;
+  }
+
+  const { hue, hueStep, saturation, lightness, color } =
+    theme.fallbackBoxColors;
+  const step = Math.max(0, Math.round(Math.log2(value)));
+
+  fallbackColor.setHSL(
+    ((hue + step * hueStep) % 360) / 360,
+    saturation,
+    lightness,
+  );
+
+  return {
+    color,
+    background: `#${fallbackColor.getHexString()}`,
+  };
+}
@@ -9,29 +9,98 @@ export type Cell = {
   block: Block | null;
   // if a block was merged in the last phase
   mergedBlock: Block | null;
+  // an immovable wall, which never holds a block
+  isObstacle: boolean;
+  // a hole in the board layout, which isn't part of the board at all
+  isMasked: boolean;
 };
 export type GridRow = Cell[];
 export type GridColumn = Cell[];
 export type Grid = {
-  size: number;
+  width: number;
+  height: number;
   rows: GridRow[];
 };
+// the shape of a board, one string per row with '#' for a cell and '.' for a hole
+export type BoardLayout = string[];
 export type Vector = {
   x: number;
   y: number;
 };
+export type RandomFn = () => number;
+export type RandomGenerator = {
+  random: RandomFn;
+  getState: () => number;
+};
+export type SpawnRules = {
+  // block values which can spawn, each picked in proportion to its weight
+  values: {
+    value: number;
+    weight: number;
+  }[];
+  // blocks spawned after each move
+  spawnCount: number;
+  // blocks on the board at the start of a game
+  startCount: number;
+};
 export type Phase =
   | 'INIT'
   | 'INPUT'
   | 'ACTIVE'
+  | 'REVERT'
   | 'TEST_WON'
   | 'WON'
   | 'SPAWN'
   | 'TEST_GAME_OVER'
   | 'GAME_OVER';
+// a settled INPUT phase state which can be returned to via undo/redo
+export type HistorySnapshot = {
+  grid: Grid;
+  score: number;
+  moveCount: number;
+  randomState: number;
+};
+export type History = {
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
+};
 export type State = {
   phase: Phase;
   grid: Grid;
+  score: number;
+  bestScore: number;
+  moveCount: number;
+  history: History;
+  // the seed the game was started with and the current state of the PRNG derived from it
+  seed: string;
+  randomState: number;
+  // the block value which wins the game
+  winValue: number;
+  spawnRules: SpawnRules;
+  // the number of obstacles placed at random at the start of each game
+  obstacleCount: number;
+  // set when the player chose to keep playing after winning, so it isn't won again
+  keepPlaying: boolean;
+  // counts restarts, so that the blocks of a restarted seeded game get ids of their own
+  gameNumber: number;
+};
+
+// where a block went in a single move, and what it merged with on the way
+export type BlockMove = {
+  id: string;
+  from: Vector;
+  to: Vector;
+  // the id of the other block in a merge, for both of the blocks
+  mergedWith: string | null;
+  // true for the block which disappears into the other one
+  isMerged: boolean;
+};
+
+export type MoveResult = {
+  grid: Grid;
+  // false if nothing moved or merged, which isn't a valid move
+  hasChanged: boolean;
+  blockMoves: BlockMove[];
 };
 
 export type ActionType =
@@ -39,6 +108,9 @@ export type ActionType =
   | 'SET_MOVED_DIRECTION'
   | 'ADD_NEW_BLOCK'
   | 'CLEAR_TRANSIENT_STATE'
+  | 'UNDO'
+  | 'REDO'
+  | 'KEEP_PLAYING'
   | 'RESTART';
 
 export type BaseAction = {
@@ -53,16 +125,26 @@ export type SetDirectionAction = {
 export type AddNewBlockAction = {
   position: Vector;
   block: Block;
+  randomState: number;
 } & BaseAction;
 export type ClearTransientStateAction = {
   nextPhase: Phase;
 } & BaseAction;
-export type RestartAction = BaseAction;
+export type UndoAction = BaseAction;
+export type RedoAction = BaseAction;
+export type KeepPlayingAction = BaseAction;
+export type RestartAction = {
+  // a fresh random seed is used when omitted
+  seed?: string;
+} & BaseAction;
 export type Action =
   | SetPhaseAction
   | SetDirectionAction
   | AddNewBlockAction
   | ClearTransientStateAction
+  | UndoAction
+  | RedoAction
+  | KeepPlayingAction
   | RestartAction;
 
 export type BoxViewData = {
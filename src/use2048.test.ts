@@ -0,0 +1,111 @@
+import { act, fireEvent, renderHook } from '@testing-library/react';
+
+import { use2048 } from './use2048';
+import { initGameState } from './gameEngine';
+import { makeEmptyGrid, setBlockAt } from './gridUtils';
+import { makeRectangleLayout } from './boardLayouts';
+import { serializeGameState } from './serialization';
+import { saveToStorage } from './storage';
+import { SAVED_GAME_STORAGE_KEY } from './consts';
+
+// a single 16 is always spawned, which can't merge with anything on the board below
+const SPAWN_RULES = {
+  values: [{ value: 16, weight: 1 }],
+  spawnCount: 1,
+  startCount: 1,
+};
+const LAYOUT = makeRectangleLayout(2);
+
+// a 2 × 2 game which is lost by moving right, once the 16 spawns in the top left
+const saveNearlyLostGame = () => {
+  const grid = makeEmptyGrid(2);
+
+  setBlockAt({ x: 0, y: 0 }, { id: 'a', value: 2, isNew: false }, grid);
+  setBlockAt({ x: 1, y: 0 }, { id: 'b', value: 4, isNew: false }, grid);
+  setBlockAt({ x: 0, y: 1 }, { id: 'c', value: 8, isNew: false }, grid);
+
+  saveToStorage(
+    SAVED_GAME_STORAGE_KEY,
+    serializeGameState({
+      ...initGameState({ size: 2, seed: 'lost', spawnRules: SPAWN_RULES }),
+      phase: 'INPUT',
+      grid,
+    }),
+  );
+};
+
+type Hook = { current: ReturnType<typeof use2048> };
+
+// plays out the boxes' animations, one completion at a time, until the phase changes
+const completeAnimations = (result: Hook) => {
+  const { phase } = result.current.state;
+
+  for (let i = 0; result.current.state.phase === phase && i < 100; ++i) {
+    act(() => result.current.handleBoxAnimationComplete());
+  }
+};
+
+describe('use2048', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('records a lost game once, even if the input queue changes afterwards', () => {
+    saveNearlyLostGame();
+
+    const onGameFinished = jest.fn();
+    const { result, rerender } = renderHook(
+      ({ inputQueueDepth }) =>
+        use2048(LAYOUT, {
+          spawnRules: SPAWN_RULES,
+          onGameFinished,
+          inputQueueDepth,
+        }),
+      { initialProps: { inputQueueDepth: 0 } },
+    );
+
+    completeAnimations(result);
+    expect(result.current.state.phase).toEqual('INPUT');
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    completeAnimations(result);
+    completeAnimations(result);
+
+    expect(result.current.state.phase).toEqual('GAME_OVER');
+    expect(onGameFinished).toHaveBeenCalledTimes(1);
+
+    rerender({ inputQueueDepth: 2 });
+    rerender({ inputQueueDepth: 1 });
+
+    expect(result.current.state.phase).toEqual('GAME_OVER');
+    expect(onGameFinished).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for every animation of a phase, whatever completed during the last one', () => {
+    saveNearlyLostGame();
+
+    const { result } = renderHook(() =>
+      use2048(LAYOUT, { spawnRules: SPAWN_RULES }),
+    );
+    const { handleBoxAnimationComplete, boxViewData } = result.current;
+
+    // as if changing the theme or speed had re-run a box's animation, which completed twice
+    act(() => {
+      for (let i = 0; i < boxViewData.length + 2; ++i) {
+        handleBoxAnimationComplete();
+      }
+    });
+    expect(result.current.state.phase).toEqual('INPUT');
+
+    fireEvent.keyDown(window, { key: 'ArrowDown' });
+    expect(result.current.state.phase).toEqual('ACTIVE');
+
+    // every box animates when moving
+    act(() => result.current.handleBoxAnimationComplete());
+    act(() => result.current.handleBoxAnimationComplete());
+    expect(result.current.state.phase).toEqual('ACTIVE');
+
+    act(() => result.current.handleBoxAnimationComplete());
+    expect(result.current.state.phase).toEqual('SPAWN');
+  });
+});
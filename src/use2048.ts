@@ -1,115 +1,96 @@
 import {
-  Dispatch,
+  RefObject,
   useCallback,
   useEffect,
   useMemo,
-  useReducer,
   useRef,
+  useState,
+  useSyncExternalStore,
 } from 'react';
+import { Vector3 } from 'three';
+
 import {
   State,
-  Action,
-  SetPhaseAction,
-  SetDirectionAction,
-  AddNewBlockAction,
-  ClearTransientStateAction,
-  Block,
   BoxViewData,
-  Vector,
   Phase,
   Grid,
+  SpawnRules,
+  BoardLayout,
+  Vector,
 } from './types';
 import {
-  makeEmptyGrid,
-  setBlockAt,
-  makeNewBlock,
-  resolveCellsInDirection,
-  cloneGrid,
-  updateCells,
   iterateCells,
   gridToScreenPosition,
-  hasLost,
-  hasWon,
-  hasNewCell,
-  findEmptyCellPositions,
+  getGridLayout,
+  isBlockingCell,
 } from './gridUtils';
-import { arrayRandomItem, randomIntInclusive } from './utils';
-
-function initReducer(size: number): State {
-  const grid = makeEmptyGrid(size);
-  const x = randomIntInclusive(0, size - 1);
-  const y = randomIntInclusive(0, size - 1);
-
-  return {
-    phase: 'INIT',
-    grid: setBlockAt({ x, y }, makeNewBlock(2), grid),
-  };
-}
-
-function reducer(state: State, action: Action): State {
-  const { grid } = state;
-
-  switch (action.type) {
-    case 'SET_PHASE':
-      return {
-        ...state,
-        phase: (action as SetPhaseAction).phase,
-      };
-
-    case 'SET_MOVED_DIRECTION':
-      return {
-        phase: 'ACTIVE',
-        grid: resolveCellsInDirection(
-          (action as SetDirectionAction).direction,
-          grid,
-        ),
-      };
-
-    case 'ADD_NEW_BLOCK': {
-      const nextGrid = cloneGrid(grid);
-      const { block, position } = action as AddNewBlockAction;
-
-      return {
-        ...state,
-        grid: setBlockAt(position, block, nextGrid),
-      };
-    }
-
-    case 'CLEAR_TRANSIENT_STATE': {
-      const nextGrid = cloneGrid(grid);
-
-      return {
-        ...state,
-        phase: (action as ClearTransientStateAction).nextPhase,
-        grid: updateCells(nextGrid, (cell) => {
-          const { block, mergedBlock } = cell;
-
-          if (!mergedBlock && !block?.isNew) {
-            return cell;
-          }
+import {
+  createGameEngine,
+  GameEngine,
+  prepareResumedGameState,
+} from './gameEngine';
+import { GameResult, getGameResult } from './stats';
+import { deserializeGameState, serializeGameState } from './serialization';
+import {
+  createGameRecorder,
+  createReplayEngine,
+  GameRecorder,
+  GameRecording,
+  RECORDING_VERSION,
+} from './replay';
+import {
+  createGamepadInputSource,
+  createInputRegistry,
+  createKeyboardInputSource,
+  createSwipeInputSource,
+  createInputQueue,
+  InputCommand,
+  InputRegistry,
+  KeyBindings,
+  KEY_BINDING_PRESETS,
+} from './input';
+import { SubscribeToMerges } from './mergeEffectUtils';
+import { loadFromStorage, saveToStorage } from './storage';
+import {
+  BEST_SCORE_STORAGE_KEY,
+  DEFAULT_SPAWN_RULES,
+  DEFAULT_WIN_VALUE,
+  RECORDING_STORAGE_KEY,
+  SAVED_GAME_STORAGE_KEY,
+} from './consts';
+
+// a saved game is only resumed if it was being played with the same settings
+const loadSavedGame = (
+  layout: BoardLayout,
+  seed: string | undefined,
+  winValue = DEFAULT_WIN_VALUE,
+  spawnRules = DEFAULT_SPAWN_RULES,
+  obstacleCount = 0,
+): State | undefined => {
+  const data = loadFromStorage<unknown>(SAVED_GAME_STORAGE_KEY, null);
+
+  if (!data) {
+    return;
+  }
 
-          return {
-            block: {
-              ...(block as Block),
-              isNew: false,
-            },
-            mergedBlock: null,
-          };
-        }),
-      };
+  try {
+    const state = deserializeGameState(data);
+
+    if (
+      getGridLayout(state.grid).join() !== layout.join() ||
+      state.winValue !== winValue ||
+      JSON.stringify(state.spawnRules) !== JSON.stringify(spawnRules) ||
+      state.obstacleCount !== obstacleCount ||
+      (seed !== undefined && state.seed !== seed)
+    ) {
+      return;
     }
 
-    case 'RESTART': {
-      return initReducer(state.grid.size);
-    }
+    return prepareResumedGameState(state);
+  } catch {
+    // a corrupt save is no worse than no save
+    return;
   }
-}
-
-const KEY_DIRECTION_MAP: Record<string, Vector> = {
-  ArrowLeft: { x: -1, y: 0 },
-  ArrowRight: { x: 1, y: 0 },
-  ArrowUp: { x: 0, y: -1 },
-  ArrowDown: { x: 0, y: 1 },
 };
 
 const useBoxViewData = (grid: Grid): BoxViewData[] => {
@@ -122,7 +103,7 @@ const useBoxViewData = (grid: Grid): BoxViewData[] => {
       }
 
       const { block, mergedBlock } = cell;
-      const screenPosition = gridToScreenPosition(grid.size, position);
+      const screenPosition = gridToScreenPosition(grid, position);
 
       result.push({
         ...block,
@@ -143,154 +124,435 @@ const useBoxViewData = (grid: Grid): BoxViewData[] => {
   }, [grid]);
 };
 
+// obstacles never move, so they only change when a new game starts
+const useObstaclePositions = (grid: Grid): Vector3[] => {
+  return useMemo(() => {
+    const result: Vector3[] = [];
+
+    iterateCells(grid, (cell, position) => {
+      if (cell.isObstacle) {
+        result.push(gridToScreenPosition(grid, position));
+      }
+    });
+
+    return result;
+  }, [grid]);
+};
+
+// every cell a block can be in, which doesn't change during a game either
+const useSlotPositions = (grid: Grid): Vector3[] => {
+  return useMemo(() => {
+    const result: Vector3[] = [];
+
+    iterateCells(grid, (cell, position) => {
+      if (!isBlockingCell(cell)) {
+        result.push(gridToScreenPosition(grid, position));
+      }
+    });
+
+    return result;
+  }, [grid]);
+};
+
+// Input sources are registered for the lifetime of the game, but only listened to by the
+// phase system whilst it is waiting for input. A replay is driven by its own source, so
+// the player's sources are left out
+const useInputRegistry = (
+  keyBindings: KeyBindings,
+  swipeTarget: RefObject<HTMLElement> | undefined,
+  isReplay: boolean,
+): InputRegistry => {
+  const [inputRegistry] = useState(createInputRegistry);
+
+  useEffect(() => {
+    if (isReplay) {
+      return;
+    }
+
+    return inputRegistry.register(createKeyboardInputSource(keyBindings));
+  }, [inputRegistry, keyBindings, isReplay]);
+
+  useEffect(() => {
+    if (isReplay || !swipeTarget?.current) {
+      return;
+    }
+
+    return inputRegistry.register(createSwipeInputSource(swipeTarget.current));
+  }, [inputRegistry, swipeTarget, isReplay]);
+
+  useEffect(() => {
+    if (isReplay) {
+      return;
+    }
+
+    return inputRegistry.register(createGamepadInputSource());
+  }, [inputRegistry, isReplay]);
+
+  return inputRegistry;
+};
+
 const useBoxAnimationsCompleteCallback = (
   boxCount: number,
+  newBoxCount: number,
   phase: Phase,
-  dispatch: Dispatch<Action>,
+  onAnimationsComplete: () => void,
 ) => {
   const animationCompleteCount = useRef(0);
 
+  // each phase counts its own animations, so extra completions, such as from an animation
+  // which re-ran, aren't carried over to bring the next phase to an end early
+  useEffect(() => {
+    animationCompleteCount.current = 0;
+  }, [phase]);
+
   return useCallback(() => {
-    // spawn total animation complete is always 1
-    const totalCompleteCount = phase === 'ACTIVE' ? boxCount : 1;
+    // every box animates when moving or reverting, otherwise only new boxes spawn in
+    const totalCompleteCount =
+      phase === 'ACTIVE' || phase === 'REVERT' ? boxCount : newBoxCount;
 
     animationCompleteCount.current += 1;
 
     if (animationCompleteCount.current === totalCompleteCount) {
       animationCompleteCount.current = 0;
+      onAnimationsComplete();
+    }
+  }, [phase, boxCount, newBoxCount, onAnimationsComplete]);
+};
 
-      const nextPhaseMap: Partial<Record<Phase, Phase>> = {
-        INIT: 'INPUT',
-        ACTIVE: 'TEST_WON',
-        SPAWN: 'TEST_GAME_OVER',
-      };
+type EffectCleanupHandler = () => void;
+type PhaseHandler = () => EffectCleanupHandler | void;
 
-      const nextPhase = nextPhaseMap[phase];
+// the engine runs the game rules, this only handles the phases which need the browser
+const usePhaseSystem = (
+  phase: Phase,
+  engine: GameEngine,
+  inputRegistry: InputRegistry,
+  inputQueueDepth: number,
+  onInputQueueChange?: InputQueueChangeHandler,
+) => {
+  // kept in a ref so a new callback doesn't re-run the handler for the current phase
+  const inputQueueChangeHandler = useRef(onInputQueueChange);
+  inputQueueChangeHandler.current = onInputQueueChange;
 
-      if (!nextPhase) {
-        throw Error(
-          `Animation complete fired during unexpected phase ${phase}`,
-        );
-      }
+  // the queue lasts as long as the engine, so changing its depth doesn't re-run the
+  // handler for the current phase either
+  const [inputQueue] = useState(() => createInputQueue(inputQueueDepth));
 
-      dispatch({
-        type: 'CLEAR_TRANSIENT_STATE',
-        nextPhase,
-      });
+  useEffect(() => {
+    const queuedCount = inputQueue.size();
+
+    inputQueue.setDepth(inputQueueDepth);
+
+    if (inputQueue.size() !== queuedCount) {
+      inputQueueChangeHandler.current?.(inputQueue.size());
     }
-  }, [phase, boxCount, dispatch]);
-};
+  }, [inputQueue, inputQueueDepth]);
 
-type EffectCleanupHandler = () => void;
-type PhaseHandler = (grid: Grid) => EffectCleanupHandler | void;
+  const phaseHandlers: Partial<Record<Phase, PhaseHandler>> = useMemo(() => {
+    const queueMove = (command: InputCommand) => {
+      if (command.type === 'MOVE' && inputQueue.push(command)) {
+        inputQueueChangeHandler.current?.(inputQueue.size());
+      }
+    };
+
+    // moves made whilst the boxes animate are kept for the next INPUT phase
+    const bufferInput = () =>
+      inputQueue.depth() ? inputRegistry.subscribe(queueMove) : undefined;
+
+    const clearInputQueue = () => {
+      if (inputQueue.size()) {
+        inputQueue.clear();
+        inputQueueChangeHandler.current?.(0);
+      }
+    };
 
-const usePhaseSystem = (state: State, dispatch: Dispatch<Action>) => {
-  const phaseHandlers: Partial<Record<Phase, PhaseHandler>> = useMemo(
-    () => ({
+    return {
       INPUT: () => {
-        const inputHandler = (e: KeyboardEvent) => {
-          const direction = KEY_DIRECTION_MAP[e.key];
+        // queued moves are played first, skipping any which wouldn't change anything
+        for (
+          let command = inputQueue.shift();
+          command;
+          command = inputQueue.shift()
+        ) {
+          inputQueueChangeHandler.current?.(inputQueue.size());
 
-          if (!direction) {
+          // sets phase to ACTIVE
+          if (command.type === 'MOVE' && engine.move(command.direction)) {
             return;
           }
+        }
 
-          // sets phase to ACTIVE
-          dispatch({
-            type: 'SET_MOVED_DIRECTION',
-            direction,
-          });
+        const inputHandler = (command: InputCommand) => {
+          switch (command.type) {
+            case 'MOVE':
+              // sets phase to ACTIVE
+              engine.move(command.direction);
+              break;
+
+            case 'UNDO':
+              // sets phase to REVERT
+              engine.undo();
+              break;
+
+            case 'REDO':
+              engine.redo();
+              break;
+          }
         };
 
-        // only allow user interaction during INPUT phase
-        window.addEventListener('keydown', inputHandler);
-        return () => window.removeEventListener('keydown', inputHandler);
+        // only allow user interaction during INPUT phase, the others can only queue moves
+        return inputRegistry.subscribe(inputHandler);
       },
+      ACTIVE: bufferInput,
+      SPAWN: bufferInput,
+      // a new game, or one which has ended, doesn't carry on with old moves
+      INIT: clearInputQueue,
+      WON: clearInputQueue,
+      GAME_OVER: clearInputQueue,
+    };
+  }, [engine, inputRegistry, inputQueue]);
 
-      TEST_WON: (grid) => {
-        const nextPhase: Phase = hasWon(grid) ? 'WON' : 'SPAWN';
-        dispatch({
-          type: 'SET_PHASE',
-          phase: nextPhase,
-        });
-      },
+  useEffect(() => {
+    return phaseHandlers[phase]?.();
+  }, [phase, phaseHandlers]);
+};
 
-      WON: () => {
-        alert('YOU WIN! Press OK to play again');
+// Results are recorded from the engine's events rather than from a phase effect, as those
+// can run more than once for the same phase
+const useGameFinishedEvents = (
+  engine: GameEngine,
+  onGameFinished?: GameFinishedHandler,
+) => {
+  const gameFinishedHandler = useRef(onGameFinished);
+  gameFinishedHandler.current = onGameFinished;
 
-        dispatch({
-          type: 'RESTART',
-        });
-      },
+  useEffect(() => {
+    const unsubscribeWon = engine.on('won', (state) =>
+      gameFinishedHandler.current?.(getGameResult(state, true), false),
+    );
+    // a game which was won and carried on with has already been recorded once
+    const unsubscribeLost = engine.on('lost', (state) =>
+      gameFinishedHandler.current?.(
+        getGameResult(state, state.keepPlaying),
+        state.keepPlaying,
+      ),
+    );
+
+    return () => {
+      unsubscribeWon();
+      unsubscribeLost();
+    };
+  }, [engine]);
+};
 
-      SPAWN: (grid) => {
-        // Spawn block and position here to keep reducer pure, otherwise React 18 strict mode
-        // could run reducer twice and spawn 2 blocks. Because position and id of block are
-        // random and the grid dep will change after a spawn, we can't rely on phase change
-        // alone to prevent this effect firing more than once, so test if a cell has already
-        // been spawned
-        if (hasNewCell(grid)) {
-          return;
-        }
+type GameFinishedHandler = (
+  result: GameResult,
+  continuesLastGame: boolean,
+) => void;
+
+type InputQueueChangeHandler = (queuedCount: number) => void;
+
+type Use2048Options = {
+  // when set, every game (including restarts) is played with the same seeded board
+  seed?: string;
+  // the block value which wins the game, defaults to 2048
+  winValue?: number;
+  // the element which receives touch swipes and mouse drags
+  swipeTarget?: RefObject<HTMLElement>;
+  // the values and number of blocks spawned, defaults to the classic 2048 rules
+  spawnRules?: SpawnRules;
+  // the number of obstacles placed at random at the start of each game, defaults to none
+  obstacleCount?: number;
+  // extra keys for each direction, the arrow keys always work too
+  keyBindings?: KeyBindings;
+  // watch a recorded game instead of playing, which ignores all of the other options
+  recording?: GameRecording;
+  // called when a game is won and again if it's carried on with until it's lost, but
+  // never for replays
+  onGameFinished?: GameFinishedHandler;
+  // called when a move is ignored because it wouldn't change anything
+  onBump?: (direction: Vector) => void;
+  // how many moves made during animations are played once they finish, defaults to none
+  inputQueueDepth?: number;
+  // called whenever moves are queued or taken from the queue
+  onInputQueueChange?: InputQueueChangeHandler;
+};
 
-        const emptyCellPositions = findEmptyCellPositions(grid);
+export const use2048 = (
+  layout: BoardLayout,
+  {
+    seed,
+    winValue,
+    spawnRules,
+    obstacleCount,
+    swipeTarget,
+    keyBindings = KEY_BINDING_PRESETS.arrows,
+    recording,
+    onGameFinished,
+    onBump,
+    inputQueueDepth = 0,
+    onInputQueueChange,
+  }: Use2048Options = {},
+): {
+  state: State;
+  // the latest state, for callbacks which shouldn't wait for a render
+  getState: () => State;
+  boxViewData: BoxViewData[];
+  obstaclePositions: Vector3[];
+  slotPositions: Vector3[];
+  handleBoxAnimationComplete: () => void;
+  restart: () => void;
+  keepPlaying: () => void;
+  inputRegistry: InputRegistry;
+  // the recording of the current game, or null if its start wasn't recorded
+  getRecording: () => GameRecording | null;
+  subscribeToMerges: SubscribeToMerges;
+  // set once a replay stops matching the recording it's playing back
+  replayError: string | null;
+} => {
+  const [replayError, setReplayError] = useState<string | null>(null);
+  // the engine is only created once per mount, so changing layout or seed needs a remount
+  const [{ engine, recorder }] = useState(
+    (): {
+      engine: GameEngine;
+      recorder: GameRecorder | null;
+    } => {
+      if (recording) {
+        // replays are watched rather than played, so are never recorded or saved
+        return {
+          engine: createReplayEngine(recording, true, setReplayError),
+          recorder: null,
+        };
+      }
 
-        dispatch({
-          type: 'ADD_NEW_BLOCK',
-          position: arrayRandomItem(emptyCellPositions),
-          block: makeNewBlock(2),
-        });
-      },
+      const bestScore = loadFromStorage(BEST_SCORE_STORAGE_KEY, 0);
+      const savedState = loadSavedGame(
+        layout,
+        seed,
+        winValue,
+        spawnRules,
+        obstacleCount,
+      );
+
+      const savedRecording = loadFromStorage<GameRecording | null>(
+        RECORDING_STORAGE_KEY,
+        null,
+      );
+      const engine = createGameEngine({
+        layout,
+        seed,
+        winValue,
+        spawnRules,
+        obstacleCount,
+        bestScore,
+        state: savedState && {
+          ...savedState,
+          bestScore: Math.max(savedState.bestScore, bestScore),
+        },
+        waitForAnimations: true,
+      });
 
-      TEST_GAME_OVER: (grid) => {
-        const nextAction: Action = hasLost(grid)
-          ? { type: 'SET_PHASE', phase: 'GAME_OVER' }
-          : { type: 'CLEAR_TRANSIENT_STATE', nextPhase: 'INPUT' };
+      return {
+        engine,
+        // a resumed game carries on with the recording saved alongside it, unless it was
+        // saved by an older version which recorded differently
+        recorder: createGameRecorder(
+          engine,
+          savedState
+            ? savedRecording?.seed === savedState.seed &&
+              savedRecording.version === RECORDING_VERSION
+              ? savedRecording
+              : null
+            : undefined,
+        ),
+      };
+    },
+  );
+  const subscribe = useCallback(
+    (onChange: () => void) => engine.on('change', onChange),
+    [engine],
+  );
+  const state = useSyncExternalStore(subscribe, engine.getState);
+  const { phase, grid, bestScore } = state;
 
-        dispatch(nextAction);
-      },
+  const bumpHandler = useRef(onBump);
+  bumpHandler.current = onBump;
 
-      GAME_OVER: () => {
-        alert('GAME OVER! Press OK to play again');
+  useEffect(
+    () =>
+      engine.on('bump', ({ direction }) => bumpHandler.current?.(direction)),
+    [engine],
+  );
 
-        dispatch({
-          type: 'RESTART',
-        });
-      },
-    }),
-    [dispatch],
+  const subscribeToMerges: SubscribeToMerges = useCallback(
+    (listener) => engine.on('merge', listener),
+    [engine],
   );
 
-  const { phase, grid } = state;
+  useEffect(() => {
+    if (recorder) {
+      saveToStorage(BEST_SCORE_STORAGE_KEY, bestScore);
+    }
+  }, [recorder, bestScore]);
 
+  // only settled states are saved, a finished game is cleared so a reload starts afresh
   useEffect(() => {
-    return phaseHandlers[phase]?.(grid);
-  }, [phase, grid, phaseHandlers]);
-};
+    if (!recorder) {
+      return;
+    }
 
-export const use2048 = (
-  size: number,
-): {
-  state: State;
-  boxViewData: BoxViewData[];
-  handleBoxAnimationComplete: () => void;
-} => {
-  const [state, dispatch] = useReducer(reducer, size, initReducer);
-  const { phase, grid } = state;
+    if (phase === 'INPUT') {
+      saveToStorage(SAVED_GAME_STORAGE_KEY, serializeGameState(state));
+      saveToStorage(RECORDING_STORAGE_KEY, recorder.getRecording());
+    } else if (phase === 'GAME_OVER') {
+      saveToStorage(SAVED_GAME_STORAGE_KEY, null);
+      saveToStorage(RECORDING_STORAGE_KEY, null);
+    }
+  }, [recorder, phase, state]);
 
   const boxViewData = useBoxViewData(grid);
+  const obstaclePositions = useObstaclePositions(grid);
+  const slotPositions = useSlotPositions(grid);
+  const newBoxCount = useMemo(
+    () => boxViewData.filter(({ isNew }) => isNew).length,
+    [boxViewData],
+  );
 
   const handleBoxAnimationComplete = useBoxAnimationsCompleteCallback(
     boxViewData.length,
+    newBoxCount,
     phase,
-    dispatch,
+    engine.completeAnimations,
   );
 
-  usePhaseSystem(state, dispatch);
+  const inputRegistry = useInputRegistry(
+    keyBindings,
+    swipeTarget,
+    Boolean(recording),
+  );
+
+  // a replay only steps whilst waiting for input, so never has anything to queue
+  usePhaseSystem(
+    phase,
+    engine,
+    inputRegistry,
+    recording ? 0 : inputQueueDepth,
+    onInputQueueChange,
+  );
+  useGameFinishedEvents(engine, recording ? undefined : onGameFinished);
 
   return {
     state,
+    getState: engine.getState,
     boxViewData,
+    obstaclePositions,
+    slotPositions,
     handleBoxAnimationComplete,
+    restart: engine.restart,
+    keepPlaying: engine.keepPlaying,
+    inputRegistry,
+    getRecording: () => recorder?.getRecording() ?? null,
+    subscribeToMerges,
+    replayError,
   };
 };
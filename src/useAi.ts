@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { Grid, SpawnRules, State, Vector } from './types';
+import { AiOptions, AiRequest, AiResponse } from './ai';
+import { InputRegistry } from './input';
+
+type AiSearch = {
+  // Only one search runs at a time. Aborting it, or starting another, replaces the worker
+  // so that the abandoned search stops straight away, and its promise never settles
+  findBestMove: (
+    grid: Grid,
+    spawnRules: SpawnRules,
+    options: AiOptions,
+    signal: AbortSignal,
+  ) => Promise<Vector | null>;
+  terminate: () => void;
+};
+
+const createAiSearch = (): AiSearch => {
+  let worker: Worker | null = null;
+  let current: {
+    id: number;
+    resolve: (direction: Vector | null) => void;
+  } | null = null;
+  let nextId = 0;
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL('./ai.worker.ts', import.meta.url));
+      worker.onmessage = ({ data }: MessageEvent<AiResponse>) => {
+        if (data.id === current?.id) {
+          current.resolve(data.direction);
+          current = null;
+        }
+      };
+    }
+
+    return worker;
+  };
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+    current = null;
+  };
+
+  return {
+    findBestMove: (grid, spawnRules, options, signal) =>
+      new Promise((resolve) => {
+        if (signal.aborted) {
+          return;
+        }
+
+        if (current) {
+          terminate();
+        }
+
+        const request: AiRequest = {
+          id: nextId++,
+          grid,
+          spawnRules,
+          options,
+        };
+
+        current = { id: request.id, resolve };
+        signal.addEventListener('abort', () => {
+          if (current?.id === request.id) {
+            terminate();
+          }
+        });
+        getWorker().postMessage(request);
+      }),
+    terminate,
+  };
+};
+
+type UseAiOptions = {
+  // plays the best move every time the game is waiting for input
+  autoplay: boolean;
+  options: AiOptions;
+};
+
+export const useAi = (
+  state: State,
+  getState: () => State,
+  inputRegistry: InputRegistry,
+  { autoplay, options }: UseAiOptions,
+): {
+  // the best move for the current board, once a hint has been requested
+  hint: Vector | null;
+  requestHint: () => void;
+} => {
+  // hints and autoplay each have a search of their own, so neither abandons the other's
+  const searches = useRef<{ hint: AiSearch; autoplay: AiSearch } | null>(null);
+  const [hint, setHint] = useState<{
+    grid: Grid;
+    direction: Vector | null;
+  } | null>(null);
+  const hintController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    searches.current = {
+      hint: createAiSearch(),
+      autoplay: createAiSearch(),
+    };
+
+    return () => {
+      searches.current?.hint.terminate();
+      searches.current?.autoplay.terminate();
+      searches.current = null;
+    };
+  }, []);
+
+  const requestHint = useCallback(() => {
+    const { grid, spawnRules } = getState();
+
+    hintController.current?.abort();
+    hintController.current = new AbortController();
+    searches.current?.hint
+      .findBestMove(grid, spawnRules, options, hintController.current.signal)
+      .then((direction) => setHint({ grid, direction }));
+  }, [getState, options]);
+
+  // a hint is only for the board it was requested for, so it's no use once the board moves on
+  useEffect(
+    () => () => {
+      hintController.current?.abort();
+      hintController.current = null;
+    },
+    [state.grid],
+  );
+
+  // autoplay is just another source of input, so it makes exactly the same moves as a
+  // player would. It only plays whilst the game is waiting for input, never queueing up
+  // moves for a board which is still changing
+  useEffect(() => {
+    if (!autoplay) {
+      return;
+    }
+
+    return inputRegistry.register((onInput) => {
+      const { grid, spawnRules, phase } = getState();
+      const controller = new AbortController();
+
+      if (phase !== 'INPUT') {
+        return () => {};
+      }
+
+      searches.current?.autoplay
+        .findBestMove(grid, spawnRules, options, controller.signal)
+        .then((direction) => {
+          if (direction) {
+            onInput({ type: 'MOVE', direction });
+          }
+        });
+
+      return () => {
+        controller.abort();
+      };
+    });
+  }, [autoplay, getState, inputRegistry, options]);
+
+  return {
+    // a hint is only for the board it was requested for
+    hint: hint?.grid === state.grid ? hint.direction : null,
+    requestHint,
+  };
+};
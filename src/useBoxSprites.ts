@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { CanvasTexture, Texture } from 'three';
+
+import { SpriteSheetData, SPRITE_SHEET } from './spriteSheet';
+import {
+  DEFAULT_TEXTURE_ATLAS_OPTIONS,
+  drawTextureAtlas,
+  getTextureAtlasValues,
+  TextureAtlasOptions,
+} from './textureAtlas';
+
+export type BoxSprites = {
+  texture: Texture;
+  sheet: SpriteSheetData;
+};
+
+/**
+ * Uses the prebuilt sheet for as long as it has a frame for every value on the board.
+ * After that every box switches to an atlas drawn at runtime, rather than mixing the two,
+ * so that all of the boxes still share a single texture
+ */
+export const useBoxSprites = (
+  sheetTexture: Texture,
+  values: number[],
+  options: TextureAtlasOptions = DEFAULT_TEXTURE_ATLAS_OPTIONS,
+): BoxSprites => {
+  const atlas = useRef<BoxSprites | null>(null);
+  // only a value without a frame can change the result, not every change to the board
+  const valuesKey = Array.from(new Set(values))
+    .sort((a, b) => a - b)
+    .join();
+
+  const sprites = useMemo(() => {
+    const current = atlas.current ?? {
+      texture: sheetTexture,
+      sheet: SPRITE_SHEET,
+    };
+    const boardValues = valuesKey ? valuesKey.split(',').map(Number) : [];
+
+    if (boardValues.every((value) => current.sheet.frames[value])) {
+      return current;
+    }
+
+    const { canvas, sheet } = drawTextureAtlas(
+      getTextureAtlasValues(boardValues),
+      options,
+    );
+
+    atlas.current = { texture: new CanvasTexture(canvas), sheet };
+
+    return atlas.current;
+  }, [sheetTexture, valuesKey, options]);
+
+  // the loaded sheet belongs to the loader cache, only generated atlases are disposed of
+  useEffect(
+    () => () => {
+      if (sprites.texture !== sheetTexture) {
+        sprites.texture.dispose();
+      }
+    },
+    [sprites, sheetTexture],
+  );
+
+  return sprites;
+};
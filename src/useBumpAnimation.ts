@@ -0,0 +1,56 @@
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+import { Group } from 'three';
+import gsap from 'gsap';
+
+import { BUMP_DISTANCE } from './consts';
+import { Vector } from './types';
+
+/**
+ * Nudges the board towards a move which changed nothing and springs it back, so that
+ * the move is still acknowledged. Only the group moves, the game stays waiting for input
+ */
+export const useBumpAnimation = (
+  isEnabled: boolean,
+  // in seconds, with no duration the board doesn't shake at all
+  duration: number,
+): [RefObject<Group>, (direction: Vector) => void] => {
+  const group = useRef<Group>(null);
+  const tween = useRef<gsap.core.Timeline | null>(null);
+
+  const bump = useCallback(
+    (direction: Vector) => {
+      if (!isEnabled || !duration || !group.current) {
+        return;
+      }
+
+      tween.current?.kill();
+      group.current.position.set(0, 0, 0);
+
+      tween.current = gsap
+        .timeline()
+        .to(group.current.position, {
+          // grid rows count down the screen
+          x: direction.x * BUMP_DISTANCE,
+          y: -direction.y * BUMP_DISTANCE,
+          duration: duration / 3,
+          ease: 'power2.out',
+        })
+        .to(group.current.position, {
+          x: 0,
+          y: 0,
+          duration: (duration * 2) / 3,
+          ease: 'elastic.out(1, 0.4)',
+        });
+    },
+    [isEnabled, duration],
+  );
+
+  useEffect(
+    () => () => {
+      tween.current?.kill();
+    },
+    [],
+  );
+
+  return [group, bump];
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+import { KeyBindings, sanitizeKeyBindings } from './input';
+import { loadFromStorage, saveToStorage } from './storage';
+import { KEY_BINDINGS_STORAGE_KEY } from './consts';
+
+export const useKeyBindings = (): [
+  KeyBindings,
+  (keyBindings: KeyBindings) => void,
+] => {
+  const [keyBindings, setKeyBindings] = useState(() =>
+    sanitizeKeyBindings(
+      loadFromStorage<unknown>(KEY_BINDINGS_STORAGE_KEY, null),
+    ),
+  );
+
+  useEffect(() => {
+    saveToStorage(KEY_BINDINGS_STORAGE_KEY, keyBindings);
+  }, [keyBindings]);
+
+  return [keyBindings, setKeyBindings];
+};
@@ -0,0 +1,29 @@
+import { useCallback, useEffect } from 'react';
+import gsap from 'gsap';
+
+import { QueuedAnimations, QUEUED_ANIMATION_TIME_SCALES } from './settings';
+
+/**
+ * Hurries every animation along whilst there are moves queued up behind them. Scaling
+ * gsap's global timeline rather than each tween means that animations started part of
+ * the way through, or by other components, are hurried along too
+ */
+export const useQueuedAnimations = (
+  queuedAnimations: QueuedAnimations,
+): ((queuedCount: number) => void) => {
+  useEffect(
+    () => () => {
+      gsap.globalTimeline.timeScale(1);
+    },
+    [],
+  );
+
+  return useCallback(
+    (queuedCount: number) => {
+      gsap.globalTimeline.timeScale(
+        queuedCount ? QUEUED_ANIMATION_TIME_SCALES[queuedAnimations] : 1,
+      );
+    },
+    [queuedAnimations],
+  );
+};
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { Phase } from './types';
+import { InputListener, InputRegistry } from './input';
+import { GameRecording, getReplayCommands } from './replay';
+import { REPLAY_STEP_DELAY } from './consts';
+
+export const useReplayPlayer = (
+  recording: GameRecording | undefined,
+  phase: Phase,
+  inputRegistry: InputRegistry,
+  keepPlaying: () => void,
+  // a replay which no longer matches its recording can't be played any further
+  hasDiverged: boolean,
+): {
+  // how many of the recorded actions have been played so far
+  index: number;
+  total: number;
+  isPlaying: boolean;
+  setIsPlaying: (isPlaying: boolean) => void;
+  // plays the next action, if the game is ready for it
+  step: () => void;
+} => {
+  const commands = useMemo(
+    () => (recording ? getReplayCommands(recording) : []),
+    [recording],
+  );
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const onInput = useRef<InputListener | null>(null);
+
+  // the replay is just another source of input, so it can only move whilst the game is
+  // waiting for input, exactly like the player it recorded
+  useEffect(() => {
+    if (!recording) {
+      return;
+    }
+
+    return inputRegistry.register((listener) => {
+      onInput.current = listener;
+
+      return () => {
+        onInput.current = null;
+      };
+    });
+  }, [recording, inputRegistry]);
+
+  const step = useCallback(() => {
+    const command = commands[index];
+
+    if (!command || hasDiverged) {
+      return;
+    }
+
+    if (command.type === 'KEEP_PLAYING') {
+      if (phase === 'WON') {
+        setIndex(index + 1);
+        keepPlaying();
+      }
+    } else if (onInput.current) {
+      setIndex(index + 1);
+      onInput.current(command);
+    }
+  }, [commands, index, phase, keepPlaying, hasDiverged]);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+
+    if (index >= commands.length || hasDiverged) {
+      setIsPlaying(false);
+      return;
+    }
+
+    if (phase !== 'INPUT' && phase !== 'WON') {
+      return;
+    }
+
+    const timeout = setTimeout(step, REPLAY_STEP_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [isPlaying, index, commands.length, phase, step, hasDiverged]);
+
+  return {
+    index,
+    total: commands.length,
+    isPlaying,
+    setIsPlaying,
+    step,
+  };
+};
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+
+import { GameSettings, sanitizeSettings } from './settings';
+import { loadFromStorage, saveToStorage } from './storage';
+import { SETTINGS_STORAGE_KEY } from './consts';
+
+export const useSettings = (): [
+  GameSettings,
+  (settings: GameSettings) => void,
+] => {
+  const [settings, setSettings] = useState(() =>
+    sanitizeSettings(loadFromStorage<unknown>(SETTINGS_STORAGE_KEY, null)),
+  );
+
+  useEffect(() => {
+    saveToStorage(SETTINGS_STORAGE_KEY, settings);
+  }, [settings]);
+
+  return [settings, setSettings];
+};
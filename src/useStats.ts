@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { addGameResult, GameResult, GameStats, sanitizeStats } from './stats';
+import { loadFromStorage, saveToStorage } from './storage';
+import { STATS_STORAGE_KEY } from './consts';
+
+export const useStats = (): [
+  GameStats,
+  (result: GameResult, continuesLastGame: boolean) => void,
+] => {
+  const [stats, setStats] = useState(() =>
+    sanitizeStats(loadFromStorage<unknown>(STATS_STORAGE_KEY, null)),
+  );
+
+  useEffect(() => {
+    saveToStorage(STATS_STORAGE_KEY, stats);
+  }, [stats]);
+
+  const recordGameResult = useCallback(
+    (result: GameResult, continuesLastGame: boolean) =>
+      setStats((current) => addGameResult(current, result, continuesLastGame)),
+    [],
+  );
+
+  return [stats, recordGameResult];
+};
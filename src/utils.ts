@@ -1,11 +1,35 @@
-export function randomIntInclusive(min: number, max: number): number {
+import { RandomFn } from './types';
+
+export function randomIntInclusive(
+  min: number,
+  max: number,
+  random: RandomFn = Math.random,
+): number {
   min = Math.ceil(min);
   max = Math.floor(max);
-  return Math.floor(Math.random() * (max - min + 1) + min);
+  return Math.floor(random() * (max - min + 1) + min);
 }
 
-export function arrayRandomItem<T>(arr: T[]): T {
-  return arr[randomIntInclusive(0, arr.length - 1)];
+export function arrayRandomItem<T>(
+  arr: T[],
+  random: RandomFn = Math.random,
+): T {
+  return arr[randomIntInclusive(0, arr.length - 1, random)];
+}
+
+export function weightedRandomItem<T extends { weight: number }>(
+  arr: T[],
+  random: RandomFn = Math.random,
+): T {
+  const totalWeight = arr.reduce((total, { weight }) => total + weight, 0);
+  let remainingWeight = random() * totalWeight;
+
+  return (
+    arr.find(({ weight }) => {
+      remainingWeight -= weight;
+      return remainingWeight < 0;
+    }) ?? arr[arr.length - 1]
+  );
 }
 
 export function mapNumber(